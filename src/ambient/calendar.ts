@@ -0,0 +1,142 @@
+/**
+ * The calendar a date is written in.
+ * The Julian calendar was used until 4 October 1582, the Gregorian calendar from 15 October 1582 on.
+ * Protestant territories such as parts of Biberach kept the Julian calendar until 1700.
+ */
+export type CalendarSystem = 'julian' | 'gregorian';
+
+/**
+ * A calendar date in a specific calendar.
+ */
+export interface CalendarDate {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    calendar: CalendarSystem;
+}
+
+/**
+ * Names of the months, as shown in date inputs.
+ */
+export const monthNames = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * Julian day number at midnight of 15 October 1582, the first day of the Gregorian calendar.
+ */
+const GREGORIAN_REFORM_JULIAN_DAY = 2299160.5;
+
+/**
+ * Determines the calendar in use on a date, switching from Julian to Gregorian on 15 October 1582.
+ * @param year The year
+ * @param month The month from 1 to 12
+ * @param day The day of the month
+ * @return The calendar in use on that date
+ */
+export function getCalendarInUse(year: number, month: number, day: number): CalendarSystem {
+    if (year !== 1582) {
+        return year > 1582 ? 'gregorian' : 'julian';
+    }
+    if (month !== 10) {
+        return month > 10 ? 'gregorian' : 'julian';
+    }
+    return day >= 15 ? 'gregorian' : 'julian';
+}
+
+/**
+ * Converts a calendar date to a Julian day number (Meeus, Astronomical Algorithms, chapter 7).
+ * @param year The year, using astronomical numbering (1 BC = 0)
+ * @param month The month from 1 to 12
+ * @param day The day of the month, may contain a fraction of a day
+ * @param calendar The calendar the date is written in
+ * @return The Julian day number, where whole days start at noon
+ */
+export function toJulianDay(year: number, month: number, day: number, calendar: CalendarSystem): number {
+    if (month <= 2) {
+        year -= 1;
+        month += 12;
+    }
+    let correction = 0;
+    if (calendar === 'gregorian') {
+        const century = Math.floor(year / 100);
+        correction = 2 - century + Math.floor(century / 4);
+    }
+    return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + correction - 1524.5;
+}
+
+/**
+ * Converts a Julian day number to a date in the given calendar (Meeus, Astronomical Algorithms, chapter 7).
+ * @param julianDay The Julian day number
+ * @param calendar The calendar to express the date in
+ * @return The calendar date; the day may contain a fraction of a day
+ */
+export function fromJulianDay(julianDay: number, calendar: CalendarSystem): { year: number; month: number; day: number } {
+    const z = Math.floor(julianDay + 0.5);
+    const fraction = julianDay + 0.5 - z;
+    let a = z;
+    if (calendar === 'gregorian') {
+        const alpha = Math.floor((z - 1867216.25) / 36524.25);
+        a = z + 1 + alpha - Math.floor(alpha / 4);
+    }
+    const b = a + 1524;
+    const c = Math.floor((b - 122.1) / 365.25);
+    const d = Math.floor(365.25 * c);
+    const e = Math.floor((b - d) / 30.6001);
+
+    const day = b - d - Math.floor(30.6001 * e) + fraction;
+    const month = e < 14 ? e - 1 : e - 13;
+    const year = month > 2 ? c - 4716 : c - 4715;
+    return { year, month, day };
+}
+
+/**
+ * Converts a calendar date and local time of day into a JavaScript date.
+ * JavaScript dates always count in the Gregorian calendar, so Julian dates are shifted accordingly.
+ * @param date The calendar date
+ * @param hours Local hours
+ * @param minutes Local minutes
+ * @param seconds Local seconds
+ * @return The matching JavaScript date
+ */
+export function calendarDateToDate(date: CalendarDate, hours: number = 0, minutes: number = 0, seconds: number = 0): Date {
+    const julianDay = toJulianDay(date.year, date.month, date.day, date.calendar);
+    const gregorian = fromJulianDay(julianDay, 'gregorian');
+    const result = new Date(2000, 0, 1, hours, minutes, seconds);
+    // setFullYear keeps years below 100 from being read as 19xx
+    result.setFullYear(gregorian.year, gregorian.month - 1, Math.floor(gregorian.day));
+    return result;
+}
+
+/**
+ * Converts a JavaScript date into a calendar date.
+ * @param date The JavaScript date, read in local time
+ * @param calendar The calendar to express the date in; defaults to the calendar in use on that date
+ * @return The calendar date
+ */
+export function dateToCalendarDate(date: Date, calendar?: CalendarSystem): CalendarDate {
+    const julianDay = toJulianDay(date.getFullYear(), date.getMonth() + 1, date.getDate(), 'gregorian');
+    const target = calendar ?? (julianDay >= GREGORIAN_REFORM_JULIAN_DAY ? 'gregorian' : 'julian');
+    const converted = fromJulianDay(julianDay, target);
+    return {
+        year: converted.year,
+        month: converted.month,
+        day: Math.floor(converted.day),
+        calendar: target
+    };
+}
+
+/**
+ * Gets the number of days in a month.
+ * @param year The year
+ * @param month The month from 1 to 12
+ * @param calendar The calendar the month belongs to
+ * @return The number of days
+ */
+export function getDaysInMonth(year: number, month: number, calendar: CalendarSystem): number {
+    const nextMonth = month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+    return Math.round(
+        toJulianDay(nextMonth.year, nextMonth.month, 1, calendar) - toJulianDay(year, month, 1, calendar)
+    );
+}
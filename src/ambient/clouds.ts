@@ -365,6 +365,18 @@ export class Clouds {
         return this.cloudAmount;
     }
 
+    /**
+     * Sets how many samples the ray-marcher takes through the clouds and towards the sun.
+     * Fewer steps are faster but make the clouds look grainier.
+     * @param maxSteps Samples along each view ray (1-256)
+     * @param lightSteps Samples towards the sun at each point (1-64)
+     */
+    public setRaymarchSteps(maxSteps: number, lightSteps: number) {
+        if (!this.uniforms) return;
+        this.uniforms.uMaxSteps.value = THREE.MathUtils.clamp(Math.round(maxSteps), 1, 256);
+        this.uniforms.uLightSteps.value = THREE.MathUtils.clamp(Math.round(lightSteps), 1, 64);
+    }
+
     /**
      * Gets the Three.js mesh used for cloud rendering.
      * @return The cloud mesh object
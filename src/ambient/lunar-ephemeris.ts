@@ -0,0 +1,126 @@
+import {
+    eclipticToEquatorial,
+    equatorialToHorizontal,
+    getLocalSiderealTime,
+    getObliquity
+} from './sky-coordinates';
+
+/**
+ * Position and phase of the moon after Jean Meeus, Astronomical Algorithms, chapters 47 and 48.
+ * Only the largest periodic terms are used, which keeps the position within a few arc minutes.
+ * All times are Julian days in Universal Time; angles are in degrees.
+ */
+
+const DEG = Math.PI / 180;
+
+/**
+ * Mean radius of the Earth in kilometers, used for the lunar parallax.
+ */
+const EARTH_RADIUS = 6378.14;
+
+/**
+ * Position and phase of the moon as seen from a place on Earth.
+ */
+export interface LunarPosition {
+    azimuth: number; // clockwise from north
+    elevation: number; // above the horizon, corrected for parallax and refraction
+    distance: number; // in km, from the center of the Earth
+    illumination: number; // illuminated fraction of the disc, 0 = new moon, 1 = full moon
+    phase: number; // 0-1 through the lunar month, 0 = new moon, 0.25 = first quarter, 0.5 = full moon
+}
+
+/**
+ * Normalizes an angle to the range from 0 to 360 degrees.
+ * @param angle The angle in degrees
+ * @return The same angle between 0 and 360
+ */
+function normalizeAngle(angle: number): number {
+    return (angle % 360 + 360) % 360;
+}
+
+/**
+ * Calculates the fundamental arguments of the lunar theory.
+ * @param t Julian centuries since J2000
+ * @return Mean longitude, mean elongation, anomalies of sun and moon and argument of latitude in degrees
+ */
+function getLunarArguments(t: number): { meanLongitude: number, elongation: number, sunAnomaly: number, moonAnomaly: number, latitudeArgument: number } {
+    return {
+        meanLongitude: normalizeAngle(218.3164477 + 481267.88123421 * t),
+        elongation: normalizeAngle(297.8501921 + 445267.1114034 * t),
+        sunAnomaly: normalizeAngle(357.5291092 + 35999.0502909 * t),
+        moonAnomaly: normalizeAngle(134.9633964 + 477198.8675055 * t),
+        latitudeArgument: normalizeAngle(93.2720950 + 483202.0175233 * t)
+    };
+}
+
+/**
+ * Calculates where the moon appears in the sky at a given moment and place, and how much of it is lit.
+ * @param julianDay The moment in Universal Time
+ * @param latitude Geographic latitude in degrees, north positive
+ * @param longitude Geographic longitude in degrees, east positive
+ * @return The apparent lunar position and phase
+ */
+export function getLunarPosition(julianDay: number, latitude: number, longitude: number): LunarPosition {
+    const t = (julianDay - 2451545) / 36525;
+    const { meanLongitude, elongation, sunAnomaly, moonAnomaly, latitudeArgument } = getLunarArguments(t);
+    const d = elongation * DEG;
+    const m = sunAnomaly * DEG;
+    const mm = moonAnomaly * DEG;
+    const f = latitudeArgument * DEG;
+
+    const eclipticLongitude = meanLongitude
+        + 6.288774 * Math.sin(mm)
+        + 1.274027 * Math.sin(2 * d - mm)
+        + 0.658314 * Math.sin(2 * d)
+        + 0.213618 * Math.sin(2 * mm)
+        - 0.185116 * Math.sin(m)
+        - 0.114332 * Math.sin(2 * f)
+        + 0.058793 * Math.sin(2 * d - 2 * mm)
+        + 0.057066 * Math.sin(2 * d - m - mm)
+        + 0.053322 * Math.sin(2 * d + mm)
+        + 0.045758 * Math.sin(2 * d - m)
+        - 0.040923 * Math.sin(m - mm)
+        - 0.034720 * Math.sin(d)
+        - 0.030383 * Math.sin(m + mm);
+
+    const eclipticLatitude = 5.128122 * Math.sin(f)
+        + 0.280602 * Math.sin(mm + f)
+        + 0.277693 * Math.sin(mm - f)
+        + 0.173237 * Math.sin(2 * d - f)
+        + 0.055413 * Math.sin(2 * d - mm + f)
+        + 0.046271 * Math.sin(2 * d - mm - f)
+        + 0.032573 * Math.sin(2 * d + f);
+
+    const distance = 385000.56
+        - 20905.355 * Math.cos(mm)
+        - 3699.111 * Math.cos(2 * d - mm)
+        - 2955.968 * Math.cos(2 * d)
+        - 569.925 * Math.cos(2 * mm);
+
+    const { rightAscension, declination } = eclipticToEquatorial(eclipticLongitude, eclipticLatitude, getObliquity(julianDay));
+    const horizontal = equatorialToHorizontal(rightAscension, declination, getLocalSiderealTime(julianDay, longitude), latitude);
+
+    // The moon is close enough that it appears lower for an observer on the surface than from the Earth's center
+    const parallax = Math.asin(EARTH_RADIUS / distance) / DEG;
+    let elevation = horizontal.elevation - parallax * Math.cos(horizontal.elevation * DEG);
+    if (elevation > -1) {
+        elevation += 1.02 / (60 * Math.tan((elevation + 10.3 / (elevation + 5.11)) * DEG));
+    }
+
+    // Phase angle, the angle between sun and earth as seen from the moon (Meeus 48.4)
+    const phaseAngle = 180 - elongation
+        - 6.289 * Math.sin(mm)
+        + 2.100 * Math.sin(m)
+        - 1.274 * Math.sin(2 * d - mm)
+        - 0.658 * Math.sin(2 * d)
+        - 0.214 * Math.sin(2 * mm)
+        - 0.110 * Math.sin(d);
+
+    return {
+        azimuth: horizontal.azimuth,
+        elevation,
+        distance,
+        illumination: (1 + Math.cos(phaseAngle * DEG)) / 2,
+        phase: normalizeAngle(180 - phaseAngle) / 360
+    };
+}
@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import { getReferenceDistance } from '../util';
+import { getLunarPosition, type LunarPosition } from './lunar-ephemeris';
+import type { Sun } from './sun';
+
+/**
+ * Radius of the moon in kilometers, used to give the disc its apparent size.
+ */
+const MOON_RADIUS = 1737.4;
+
+/**
+ * How much larger than in reality the moon is drawn, so it stays visible on screen.
+ */
+const MOON_SCALE = 3;
+
+/**
+ * Brightness of the moonlight at full moon, high in a dark sky.
+ */
+const FULL_MOON_INTENSITY = 0.35;
+
+/**
+ * Shows the moon at its real position in the sky for the date and place of the sun.
+ * The disc is lit from the direction of the sun, so it always shows the correct phase.
+ * Adds a cool directional moonlight at night that follows the phase and the height of the moon.
+ */
+export class Moon {
+    private scene: THREE.Scene;
+    private sun: Sun;
+    private camera: THREE.Camera;
+    private light!: THREE.DirectionalLight;
+    private moonMesh!: THREE.Mesh;
+    private material!: THREE.ShaderMaterial;
+    private orbitRadius!: number;
+    private lastLunarInfo: LunarPosition | null = null;
+
+    /**
+     * Creates the moon and its light.
+     * @param scene The Three.js scene to add the moon to
+     * @param sun The sun that provides the date, the location and the direction of the sunlight
+     * @param camera The camera the moon disc stays centered on, so it looks infinitely far away
+     */
+    constructor(scene: THREE.Scene, sun: Sun, camera: THREE.Camera) {
+        this.scene = scene;
+        this.sun = sun;
+        this.camera = camera;
+        this.createMoon();
+    }
+
+    /**
+     * Creates the moonlight and the shaded moon disc.
+     */
+    private createMoon() {
+        const distance = getReferenceDistance();
+        this.orbitRadius = distance * 1.4;
+
+        this.light = new THREE.DirectionalLight(0x9fb4ff, 0);
+        this.light.castShadow = false;
+
+        this.material = new THREE.ShaderMaterial({
+            uniforms: {
+                uSunDirection: { value: new THREE.Vector3(0, 1, 0) },
+                uColor: { value: new THREE.Color(0xf4f1e8) },
+                uEarthshine: { value: new THREE.Color(0x1a1f2a) },
+                uOpacity: { value: 1.0 },
+                uDarkness: { value: 1.0 }
+            },
+            vertexShader: `
+                varying vec3 vNormal;
+                varying vec3 vViewDirection;
+
+                void main() {
+                    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+                    vNormal = normalize(mat3(modelMatrix) * normal);
+                    vViewDirection = normalize(cameraPosition - worldPosition.xyz);
+                    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+                }
+            `,
+            fragmentShader: `
+                uniform vec3 uSunDirection;
+                uniform vec3 uColor;
+                uniform vec3 uEarthshine;
+                uniform float uOpacity;
+                uniform float uDarkness;
+                varying vec3 vNormal;
+                varying vec3 vViewDirection;
+
+                void main() {
+                    vec3 normal = normalize(vNormal);
+                    float lit = smoothstep(-0.02, 0.02, dot(normal, uSunDirection));
+                    float limb = 0.75 + 0.25 * max(dot(normal, vViewDirection), 0.0);
+                    vec3 color = mix(uEarthshine, uColor * limb, lit);
+                    // The unlit part only shows against a dark sky
+                    gl_FragColor = vec4(color, uOpacity * mix(uDarkness, 1.0, lit));
+                }
+            `,
+            transparent: true,
+            depthWrite: false
+        });
+
+        this.moonMesh = new THREE.Mesh(new THREE.SphereGeometry(1, 32, 16), this.material);
+        this.moonMesh.frustumCulled = false;
+
+        this.scene.add(this.light);
+        this.scene.add(this.light.target);
+        this.scene.add(this.moonMesh);
+    }
+
+    /**
+     * Converts horizontal angles to a direction in the scene, using the same axes as the sun.
+     * @param azimuth The compass direction in degrees (0 = north, 90 = east)
+     * @param elevation The height above horizon in degrees
+     * @return A unit vector pointing towards the moon
+     */
+    private anglesToDirection(azimuth: number, elevation: number): THREE.Vector3 {
+        const azimuthRad = azimuth * Math.PI / 180;
+        const elevationRad = elevation * Math.PI / 180;
+        return new THREE.Vector3(
+            -Math.cos(elevationRad) * Math.sin(azimuthRad),
+            Math.sin(elevationRad),
+            -Math.cos(elevationRad) * Math.cos(azimuthRad)
+        );
+    }
+
+    /**
+     * Updates position, phase and light of the moon for the current frame.
+     * Called every frame after the sun, so both use the same date.
+     */
+    public update() {
+        const location = this.sun.getLocation();
+        const lunarPosition = getLunarPosition(this.sun.getJulianDay(), location.latitude, location.longitude);
+        this.lastLunarInfo = lunarPosition;
+
+        const direction = this.anglesToDirection(lunarPosition.azimuth, lunarPosition.elevation);
+
+        // Keep the disc at a fixed distance from the viewer and size it after the real distance of the moon
+        const angularRadius = Math.atan(MOON_RADIUS / lunarPosition.distance) * MOON_SCALE;
+        this.moonMesh.position.copy(this.camera.position).addScaledVector(direction, this.orbitRadius);
+        this.moonMesh.scale.setScalar(Math.tan(angularRadius) * this.orbitRadius);
+        this.moonMesh.visible = lunarPosition.elevation > -2;
+
+        const sunDirection = this.sun.getSunMesh().position.clone().normalize();
+        this.material.uniforms.uSunDirection.value.copy(sunDirection);
+
+        // The moon pales against the bright day sky
+        const sunElevation = this.sun.getSolarInfo().elevation;
+        const darkness = 1 - THREE.MathUtils.smoothstep(sunElevation, -6, 4);
+        this.material.uniforms.uOpacity.value = THREE.MathUtils.lerp(0.35, 1.0, darkness);
+        this.material.uniforms.uDarkness.value = darkness;
+
+        this.light.position.copy(direction).multiplyScalar(this.orbitRadius);
+        this.light.target.position.set(0, 0, 0);
+        this.light.target.updateMatrixWorld();
+
+        const height = THREE.MathUtils.smoothstep(lunarPosition.elevation, -1, 15);
+        this.light.intensity = FULL_MOON_INTENSITY * lunarPosition.illumination * height * darkness;
+    }
+
+    /**
+     * Gets the directional light that represents the moonlight.
+     * @return The Three.js directional light used for moonlight
+     */
+    public getLight(): THREE.DirectionalLight {
+        return this.light;
+    }
+
+    /**
+     * Gets the visual mesh that represents the moon in the sky.
+     * @return The Three.js mesh of the moon disc
+     */
+    public getMoonMesh(): THREE.Mesh {
+        return this.moonMesh;
+    }
+
+    /**
+     * Gets the current lunar position and phase.
+     * @return Object with azimuth and elevation in degrees, distance in km, illuminated fraction and phase
+     */
+    public getLunarInfo(): LunarPosition {
+        if (!this.lastLunarInfo) {
+            const location = this.sun.getLocation();
+            this.lastLunarInfo = getLunarPosition(this.sun.getJulianDay(), location.latitude, location.longitude);
+        }
+        return { ...this.lastLunarInfo };
+    }
+}
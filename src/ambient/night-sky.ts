@@ -0,0 +1,377 @@
+import * as THREE from 'three';
+import { getReferenceDistance } from '../util';
+import { getLocalSiderealTime, getPrecessionAngles } from './sky-coordinates';
+import type { Sun } from './sun';
+import type { Moon } from './moon';
+import type { Clouds } from './clouds';
+
+/**
+ * A star from the bright-star catalogue in `public/stars/bright-stars.json`.
+ */
+interface CatalogueStar {
+    name: string;
+    ra: number; // J2000 right ascension in degrees
+    dec: number; // J2000 declination in degrees
+    mag: number; // visual magnitude
+    bv: number; // B-V color index
+}
+
+/**
+ * Number of faint stars scattered procedurally between the catalogue stars.
+ */
+const FAINT_STAR_COUNT = 3000;
+
+/**
+ * Rotation from equatorial (J2000) to galactic coordinates, one row per galactic axis.
+ */
+const GALACTIC_ROTATION = new THREE.Matrix3().set(
+    -0.0548755604, -0.8734370902, -0.4838350155,
+    0.4941094279, -0.4448296300, 0.7469822445,
+    -0.8676661490, -0.1980763734, 0.4559837762
+);
+
+/**
+ * Star colors along the B-V color index, from hot blue to cool red stars.
+ */
+const STAR_COLORS: { bv: number, color: THREE.Color }[] = [
+    { bv: -0.3, color: new THREE.Color(0.62, 0.71, 1.0) },
+    { bv: 0.0, color: new THREE.Color(0.8, 0.86, 1.0) },
+    { bv: 0.6, color: new THREE.Color(1.0, 0.96, 0.9) },
+    { bv: 1.0, color: new THREE.Color(1.0, 0.86, 0.7) },
+    { bv: 1.5, color: new THREE.Color(1.0, 0.74, 0.52) },
+    { bv: 2.0, color: new THREE.Color(1.0, 0.62, 0.42) }
+];
+
+/**
+ * Shows the stars and the Milky Way as they stand over the sun's location at the chosen date and time.
+ * The sky turns with sidereal time and the precession of the Earth's axis, fades in through twilight and disappears behind clouds.
+ * Bright stars come from a bundled catalogue, fainter ones are scattered procedurally with more of them along the Milky Way.
+ */
+export class NightSky {
+    private scene: THREE.Scene;
+    private sun: Sun;
+    private moon: Moon;
+    private clouds: Clouds;
+    private camera: THREE.Camera;
+
+    private group!: THREE.Group;
+    private starMaterial!: THREE.ShaderMaterial;
+    private milkyWayMaterial!: THREE.ShaderMaterial;
+    private radius!: number;
+    private startTime = performance.now();
+    private readonly precession = new THREE.Matrix4();
+    private readonly precessionStep = new THREE.Matrix4();
+
+    /**
+     * Creates the night sky and starts loading the star catalogue.
+     * @param scene The Three.js scene to add the stars to
+     * @param sun The sun that provides date, location and twilight
+     * @param moon The moon, whose light washes out the Milky Way
+     * @param clouds The clouds that hide the stars
+     * @param camera The camera the sky stays centered on
+     * @param catalogueUrl The URL of the bright-star catalogue
+     */
+    constructor(scene: THREE.Scene, sun: Sun, moon: Moon, clouds: Clouds, camera: THREE.Camera, catalogueUrl: string = '/stars/bright-stars.json') {
+        this.scene = scene;
+        this.sun = sun;
+        this.moon = moon;
+        this.clouds = clouds;
+        this.camera = camera;
+        this.setup();
+        this.loadCatalogue(catalogueUrl).catch((error) => {
+            console.error('Failed to load star catalogue:', error);
+        });
+    }
+
+    /**
+     * Creates the sky group with the Milky Way and the procedural faint stars.
+     * Everything inside the group is placed on a unit sphere in equatorial coordinates.
+     */
+    private setup() {
+        this.radius = getReferenceDistance() * 1.5;
+
+        this.group = new THREE.Group();
+        this.group.matrixAutoUpdate = false;
+        this.group.visible = false;
+
+        this.starMaterial = new THREE.ShaderMaterial({
+            uniforms: {
+                uOpacity: { value: 0 },
+                uTime: { value: 0 }
+            },
+            vertexShader: `
+                attribute float size;
+                attribute float brightness;
+                attribute vec3 starColor;
+                uniform float uOpacity;
+                uniform float uTime;
+                varying vec3 vColor;
+                varying float vAlpha;
+
+                void main() {
+                    vec3 direction = normalize(mat3(modelMatrix) * position);
+                    // Stars sink into the haze near the horizon and twinkle more there
+                    float horizon = smoothstep(-0.02, 0.15, direction.y);
+                    float twinkle = 1.0 + (0.08 + 0.25 * (1.0 - horizon)) * sin(uTime * 3.0 + dot(position, vec3(1731.0, 937.0, 2113.0)));
+
+                    vColor = starColor;
+                    vAlpha = brightness * horizon * twinkle * uOpacity;
+                    gl_PointSize = size;
+                    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+                }
+            `,
+            fragmentShader: `
+                varying vec3 vColor;
+                varying float vAlpha;
+
+                void main() {
+                    float falloff = 1.0 - smoothstep(0.0, 0.5, length(gl_PointCoord - 0.5));
+                    gl_FragColor = vec4(vColor, vAlpha * falloff);
+                }
+            `,
+            transparent: true,
+            depthWrite: false,
+            blending: THREE.AdditiveBlending
+        });
+
+        this.milkyWayMaterial = new THREE.ShaderMaterial({
+            uniforms: {
+                uOpacity: { value: 0 },
+                uGalactic: { value: GALACTIC_ROTATION }
+            },
+            vertexShader: `
+                varying vec3 vEquatorial;
+                varying float vHorizon;
+
+                void main() {
+                    vEquatorial = position;
+                    vHorizon = smoothstep(0.0, 0.25, normalize(mat3(modelMatrix) * position).y);
+                    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+                }
+            `,
+            fragmentShader: `
+                uniform float uOpacity;
+                uniform mat3 uGalactic;
+                varying vec3 vEquatorial;
+                varying float vHorizon;
+
+                float hash(vec3 p) {
+                    return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+                }
+
+                float noise(vec3 p) {
+                    vec3 i = floor(p);
+                    vec3 f = fract(p);
+                    f = f * f * (3.0 - 2.0 * f);
+                    return mix(
+                        mix(mix(hash(i), hash(i + vec3(1, 0, 0)), f.x), mix(hash(i + vec3(0, 1, 0)), hash(i + vec3(1, 1, 0)), f.x), f.y),
+                        mix(mix(hash(i + vec3(0, 0, 1)), hash(i + vec3(1, 0, 1)), f.x), mix(hash(i + vec3(0, 1, 1)), hash(i + vec3(1, 1, 1)), f.x), f.y),
+                        f.z
+                    );
+                }
+
+                void main() {
+                    vec3 galactic = uGalactic * normalize(vEquatorial);
+                    float latitude = asin(clamp(galactic.z, -1.0, 1.0));
+                    float towardsCenter = max(galactic.x, 0.0);
+
+                    float bandWidth = latitude / (0.12 + 0.1 * towardsCenter);
+                    float band = exp(-bandWidth * bandWidth);
+                    float clumps = 0.55 * noise(galactic * 9.0) + 0.3 * noise(galactic * 23.0) + 0.15 * noise(galactic * 51.0);
+                    // The dark rift of dust runs along the plane from Cygnus towards the center
+                    float riftWidth = (latitude - 0.015) / 0.025;
+                    float rift = exp(-riftWidth * riftWidth) * smoothstep(0.0, 0.2, galactic.y) * smoothstep(-0.2, 0.2, galactic.x);
+
+                    float glow = band * (0.35 + 0.65 * clumps) * (0.6 + 0.8 * towardsCenter) * (1.0 - 0.7 * rift);
+                    vec3 color = mix(vec3(0.55, 0.62, 0.8), vec3(0.85, 0.78, 0.7), towardsCenter);
+                    gl_FragColor = vec4(color, glow * 0.22 * vHorizon * uOpacity);
+                }
+            `,
+            side: THREE.BackSide,
+            transparent: true,
+            depthWrite: false,
+            blending: THREE.AdditiveBlending
+        });
+
+        const milkyWay = new THREE.Mesh(new THREE.SphereGeometry(1.02, 64, 32), this.milkyWayMaterial);
+        milkyWay.renderOrder = -2;
+        milkyWay.frustumCulled = false;
+        this.group.add(milkyWay);
+
+        this.group.add(this.createFaintStars());
+        this.scene.add(this.group);
+    }
+
+    /**
+     * Scatters faint stars over the sky, half of them concentrated along the galactic plane.
+     * Uses a fixed seed so the sky looks the same on every visit.
+     * @return The points object of the faint stars
+     */
+    private createFaintStars(): THREE.Points {
+        let seed = 1600;
+        const random = () => {
+            seed = (seed + 0x6d2b79f5) | 0;
+            let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+
+        const toEquatorial = new THREE.Matrix3().copy(GALACTIC_ROTATION).transpose();
+        const positions: number[] = [];
+        const sizes: number[] = [];
+        const brightnesses: number[] = [];
+        const colors: number[] = [];
+        const direction = new THREE.Vector3();
+
+        for (let i = 0; i < FAINT_STAR_COUNT; i++) {
+            const longitude = random() * Math.PI * 2;
+            let sinLatitude: number;
+            if (i % 2 === 0) {
+                sinLatitude = random() * 2 - 1;
+            } else {
+                // Sum of uniform numbers approximates a normal distribution around the plane
+                const gaussian = (random() + random() + random() - 1.5) / 0.5;
+                sinLatitude = Math.sin(THREE.MathUtils.clamp(gaussian * 0.2, -Math.PI / 2, Math.PI / 2));
+            }
+            const cosLatitude = Math.sqrt(1 - sinLatitude * sinLatitude);
+            direction.set(cosLatitude * Math.cos(longitude), cosLatitude * Math.sin(longitude), sinLatitude);
+            direction.applyMatrix3(toEquatorial);
+            positions.push(direction.x, direction.y, direction.z);
+
+            const magnitude = 6.5 - 2 * Math.sqrt(random());
+            sizes.push(magnitude < 5 ? 1.5 : 1.0);
+            brightnesses.push(this.magnitudeToBrightness(magnitude));
+            const color = this.colorIndexToColor(random() * 1.6 - 0.2);
+            colors.push(color.r, color.g, color.b);
+        }
+
+        const points = new THREE.Points(this.createStarGeometry(positions, sizes, brightnesses, colors), this.starMaterial);
+        points.renderOrder = -1;
+        points.frustumCulled = false;
+        return points;
+    }
+
+    /**
+     * Loads the bright-star catalogue and adds its stars to the sky.
+     * @param url The URL of the catalogue JSON file
+     * @return Promise that resolves once the stars are added
+     */
+    private async loadCatalogue(url: string): Promise<void> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+        }
+        const data: { stars: CatalogueStar[] } = await response.json();
+
+        const positions: number[] = [];
+        const sizes: number[] = [];
+        const brightnesses: number[] = [];
+        const colors: number[] = [];
+
+        data.stars.forEach((star) => {
+            const ra = THREE.MathUtils.degToRad(star.ra);
+            const dec = THREE.MathUtils.degToRad(star.dec);
+            positions.push(Math.cos(dec) * Math.cos(ra), Math.cos(dec) * Math.sin(ra), Math.sin(dec));
+            sizes.push(THREE.MathUtils.clamp(1.5 + (4.5 - star.mag) * 0.7, 1.5, 6.0));
+            brightnesses.push(this.magnitudeToBrightness(star.mag));
+            const color = this.colorIndexToColor(star.bv);
+            colors.push(color.r, color.g, color.b);
+        });
+
+        const points = new THREE.Points(this.createStarGeometry(positions, sizes, brightnesses, colors), this.starMaterial);
+        points.renderOrder = -1;
+        points.frustumCulled = false;
+        this.group.add(points);
+        console.log(`Star catalogue loaded with ${data.stars.length} stars`);
+    }
+
+    /**
+     * Builds the point geometry for a set of stars.
+     * @param positions Unit vectors in equatorial coordinates, three values per star
+     * @param sizes Point sizes in pixels
+     * @param brightnesses Brightness from 0 to 1
+     * @param colors RGB colors, three values per star
+     * @return The star geometry
+     */
+    private createStarGeometry(positions: number[], sizes: number[], brightnesses: number[], colors: number[]): THREE.BufferGeometry {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setAttribute('size', new THREE.Float32BufferAttribute(sizes, 1));
+        geometry.setAttribute('brightness', new THREE.Float32BufferAttribute(brightnesses, 1));
+        geometry.setAttribute('starColor', new THREE.Float32BufferAttribute(colors, 3));
+        return geometry;
+    }
+
+    /**
+     * Maps a visual magnitude to the brightness of a star point.
+     * @param magnitude The visual magnitude, smaller is brighter
+     * @return Brightness from 0.08 to 1
+     */
+    private magnitudeToBrightness(magnitude: number): number {
+        return THREE.MathUtils.clamp((6.5 - magnitude) / 6, 0.08, 1);
+    }
+
+    /**
+     * Maps a B-V color index to the color of a star.
+     * @param colorIndex The B-V color index, from about -0.3 (blue) to 2 (red)
+     * @return The star color
+     */
+    private colorIndexToColor(colorIndex: number): THREE.Color {
+        const index = STAR_COLORS.findIndex((entry) => entry.bv >= colorIndex);
+        if (index <= 0) {
+            return STAR_COLORS[index === 0 ? 0 : STAR_COLORS.length - 1].color.clone();
+        }
+        const lower = STAR_COLORS[index - 1];
+        const upper = STAR_COLORS[index];
+        return lower.color.clone().lerp(upper.color, (colorIndex - lower.bv) / (upper.bv - lower.bv));
+    }
+
+    /**
+     * Turns the sky to the current sidereal time and fades it with twilight, moonlight and clouds.
+     * Called every frame after the sun and the moon.
+     */
+    public update() {
+        const sunElevation = this.sun.getSolarInfo().elevation;
+        const cloudCover = 1 - THREE.MathUtils.smoothstep(this.clouds.getCloudAmount(), 0.2, 1.0);
+        const starOpacity = (1 - THREE.MathUtils.smoothstep(sunElevation, -14, -2)) * cloudCover;
+
+        const lunarInfo = this.moon.getLunarInfo();
+        const moonlight = lunarInfo.illumination * THREE.MathUtils.smoothstep(lunarInfo.elevation, -2, 20);
+        const milkyWayOpacity = (1 - THREE.MathUtils.smoothstep(sunElevation, -18, -10)) * cloudCover * (1 - 0.75 * moonlight);
+
+        this.starMaterial.uniforms.uOpacity.value = starOpacity;
+        this.starMaterial.uniforms.uTime.value = (performance.now() - this.startTime) / 1000;
+        this.milkyWayMaterial.uniforms.uOpacity.value = milkyWayOpacity;
+        this.group.visible = starOpacity > 0;
+        if (!this.group.visible) {
+            return;
+        }
+
+        const location = this.sun.getLocation();
+        const julianDay = this.sun.getJulianDay();
+        const siderealTime = THREE.MathUtils.degToRad(getLocalSiderealTime(julianDay, location.longitude));
+        const latitude = THREE.MathUtils.degToRad(location.latitude);
+
+        // Scene axes as for the sun: x = west, y = up, z = south
+        const pole = new THREE.Vector3(0, Math.sin(latitude), -Math.cos(latitude));
+        const meridian = new THREE.Vector3(0, Math.cos(latitude), Math.sin(latitude));
+        const west = new THREE.Vector3(1, 0, 0);
+        const cos = Math.cos(siderealTime);
+        const sin = Math.sin(siderealTime);
+
+        // The catalogue and the Milky Way are given for J2000 and are moved to the equator of the chosen date
+        const { zeta, z, theta } = getPrecessionAngles(julianDay);
+        this.precession.makeRotationZ(THREE.MathUtils.degToRad(z))
+            .multiply(this.precessionStep.makeRotationY(-THREE.MathUtils.degToRad(theta)))
+            .multiply(this.precessionStep.makeRotationZ(THREE.MathUtils.degToRad(zeta)));
+
+        this.group.matrix.makeBasis(
+            meridian.clone().multiplyScalar(cos).addScaledVector(west, sin),
+            meridian.clone().multiplyScalar(sin).addScaledVector(west, -cos),
+            pole
+        ).multiply(this.precession);
+        this.group.matrix.scale(new THREE.Vector3(this.radius, this.radius, this.radius));
+        this.group.matrix.setPosition(this.camera.position);
+        this.group.matrixWorldNeedsUpdate = true;
+    }
+}
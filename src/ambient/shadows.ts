@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { CSM } from 'three/examples/jsm/csm/CSM.js';
+import { getReferenceDistance } from '../util';
+import type { Sun } from './sun';
+
+/**
+ * How detailed the sun shadows are drawn. `off` disables shadows completely.
+ */
+export type ShadowQuality = 'off' | 'low' | 'medium' | 'high';
+
+/**
+ * All shadow quality levels from cheapest to most detailed.
+ */
+export const shadowQualities: ShadowQuality[] = ['off', 'low', 'medium', 'high'];
+
+/**
+ * Cascade count, shadow map resolution and shadow distance for each quality level.
+ * The distance is given as a multiple of the reference distance.
+ */
+const shadowSettings: Record<Exclude<ShadowQuality, 'off'>, { cascades: number; mapSize: number; distance: number }> = {
+    low: { cascades: 2, mapSize: 1024, distance: 0.6 },
+    medium: { cascades: 3, mapSize: 2048, distance: 1.2 },
+    high: { cascades: 4, mapSize: 4096, distance: 2.0 }
+};
+
+/**
+ * Casts sun shadows over the whole town with cascaded shadow maps that follow the camera.
+ * Nearby shadows get a detailed map of their own while distant ones share coarser maps.
+ * While shadows are on, the cascade lights take over the sunlight from the sun's own light.
+ */
+export class Shadows {
+    private scene: THREE.Scene;
+    private camera: THREE.PerspectiveCamera;
+    private renderer: THREE.WebGLRenderer;
+    private sun: Sun;
+    private csm: CSM | null = null;
+    private quality: ShadowQuality = 'off';
+    private materials = new Set<THREE.Material>();
+    private readonly lightDirection = new THREE.Vector3();
+
+    /**
+     * Creates the shadow system and prepares all lit materials that are or will be added to the scene.
+     * @param scene The Three.js scene
+     * @param camera The camera the shadow cascades follow
+     * @param renderer The renderer whose shadow maps are enabled
+     * @param sun The sun that casts the shadows
+     * @param quality The initial shadow quality
+     */
+    constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer, sun: Sun, quality: ShadowQuality = 'medium') {
+        this.scene = scene;
+        this.camera = camera;
+        this.renderer = renderer;
+        this.sun = sun;
+
+        this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+        // The cascade lights replace the sunlight for every lit material, so all of them need the cascade shader
+        this.prepareMaterials(this.scene);
+        this.scene.addEventListener('childadded', (event) => this.prepareMaterials(event.child));
+
+        this.setQuality(quality);
+    }
+
+    /**
+     * Lets all meshes of an object cast and receive shadows.
+     * @param object The object whose meshes are configured, e.g. the scene of a loaded GLTF
+     * @param castShadow Whether the meshes throw shadows onto others
+     * @param receiveShadow Whether shadows fall onto the meshes
+     */
+    public addObject(object: THREE.Object3D, castShadow: boolean, receiveShadow: boolean): void {
+        object.traverse((child) => {
+            if ((child as THREE.Mesh).isMesh) {
+                child.castShadow = castShadow;
+                child.receiveShadow = receiveShadow;
+            }
+        });
+        this.prepareMaterials(object);
+    }
+
+    /**
+     * Sets up the cascade shader on all lit materials of an object that are not prepared yet.
+     * @param object The object to search for materials
+     */
+    private prepareMaterials(object: THREE.Object3D): void {
+        object.traverse((child) => {
+            const mesh = child as THREE.Mesh;
+            if (!mesh.isMesh) return;
+
+            const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+            materials.forEach((material) => {
+                if (!this.isLit(material) || this.materials.has(material)) return;
+                this.materials.add(material);
+                if (this.csm) {
+                    this.csm.setupMaterial(material);
+                    material.needsUpdate = true;
+                }
+            });
+        });
+    }
+
+    /**
+     * Checks whether a material is shaded by scene lights.
+     * @param material The material to check
+     * @return True for the built-in lit materials
+     */
+    private isLit(material: THREE.Material): boolean {
+        return material instanceof THREE.MeshStandardMaterial
+            || material instanceof THREE.MeshPhongMaterial
+            || material instanceof THREE.MeshLambertMaterial
+            || material instanceof THREE.MeshToonMaterial;
+    }
+
+    /**
+     * Changes the shadow quality, rebuilding the cascades with the new resolution and distance.
+     * @param quality The new shadow quality
+     */
+    public setQuality(quality: ShadowQuality): void {
+        if (this.csm) {
+            this.csm.lights.forEach((light) => light.shadow.dispose());
+            this.csm.remove();
+            this.csm.dispose();
+            this.csm = null;
+        }
+
+        this.quality = quality;
+        this.renderer.shadowMap.enabled = quality !== 'off';
+        this.sun.getLight().visible = quality === 'off';
+
+        if (quality !== 'off') {
+            const settings = shadowSettings[quality];
+            const distance = getReferenceDistance();
+            this.csm = new CSM({
+                camera: this.camera,
+                parent: this.scene,
+                cascades: settings.cascades,
+                maxFar: distance * settings.distance,
+                mode: 'practical',
+                shadowMapSize: settings.mapSize,
+                shadowBias: -0.0002,
+                lightFar: distance * 6,
+                lightMargin: distance
+            });
+            this.csm.fade = true;
+            this.csm.lights.forEach((light) => {
+                light.shadow.normalBias = 0.3;
+            });
+            this.materials.forEach((material) => this.csm?.setupMaterial(material));
+            this.update();
+        }
+
+        this.materials.forEach((material) => {
+            material.needsUpdate = true;
+        });
+        console.log(`Shadow quality set to ${quality}`);
+    }
+
+    /**
+     * Gets the current shadow quality.
+     * @return The shadow quality
+     */
+    public getQuality(): ShadowQuality {
+        return this.quality;
+    }
+
+    /**
+     * Moves the shadow cascades with the camera and gives them the direction, color and brightness of the sun.
+     * Called every frame after the sun has been updated.
+     */
+    public update(): void {
+        if (!this.csm) return;
+
+        const sunLight = this.sun.getLight();
+        this.lightDirection.copy(sunLight.target.position).sub(sunLight.position).normalize();
+        this.csm.lightDirection.copy(this.lightDirection);
+        this.csm.lights.forEach((light) => {
+            light.color.copy(sunLight.color);
+            light.intensity = sunLight.intensity;
+        });
+        this.csm.update();
+    }
+
+    /**
+     * Recalculates the cascade splits after the camera projection changed, e.g. when the window is resized.
+     */
+    public updateFrustums(): void {
+        this.csm?.updateFrustums();
+    }
+}
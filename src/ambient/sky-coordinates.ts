@@ -0,0 +1,99 @@
+/**
+ * Conversions between celestial coordinate systems, shared by the moon and the stars.
+ * All times are Julian days in Universal Time; angles are in degrees.
+ */
+
+const DEG = Math.PI / 180;
+
+/**
+ * Position of a body in the sky as seen from a place on Earth.
+ */
+export interface HorizontalPosition {
+    azimuth: number; // clockwise from north
+    elevation: number; // above the horizon, without refraction
+}
+
+/**
+ * Calculates the mean obliquity of the ecliptic, the tilt of the Earth's axis.
+ * @param julianDay The moment in Universal Time
+ * @return The obliquity in degrees
+ */
+export function getObliquity(julianDay: number): number {
+    const t = (julianDay - 2451545) / 36525;
+    return 23.439291 - 0.0130042 * t;
+}
+
+/**
+ * Calculates the angles of the general precession from J2000 to a date (IAU 1976), which turn catalogue positions
+ * into positions of that date. The Earth's axis wanders about 1.4 degrees per century, so without them
+ * the stars of 1600 would stand more than 5 degrees off.
+ * Right ascension α and declination δ of the date follow from the J2000 values by turning them about the pole by zeta,
+ * tilting them by theta and turning them about the new pole by z.
+ * @param julianDay The moment in Universal Time
+ * @return The three precession angles in degrees
+ */
+export function getPrecessionAngles(julianDay: number): { zeta: number, z: number, theta: number } {
+    const t = (julianDay - 2451545) / 36525;
+    return {
+        zeta: (2306.2181 * t + 0.30188 * t * t + 0.017998 * t * t * t) / 3600,
+        z: (2306.2181 * t + 1.09468 * t * t + 0.018203 * t * t * t) / 3600,
+        theta: (2004.3109 * t - 0.42665 * t * t - 0.041833 * t * t * t) / 3600
+    };
+}
+
+/**
+ * Calculates the local mean sidereal time, the right ascension currently crossing the meridian.
+ * @param julianDay The moment in Universal Time
+ * @param longitude Geographic longitude in degrees, east positive
+ * @return The sidereal time as an angle between 0 and 360 degrees
+ */
+export function getLocalSiderealTime(julianDay: number, longitude: number): number {
+    const t = (julianDay - 2451545) / 36525;
+    const greenwich = 280.46061837 + 360.98564736629 * (julianDay - 2451545) + t * t * (0.000387933 - t / 38710000);
+    return ((greenwich + longitude) % 360 + 360) % 360;
+}
+
+/**
+ * Converts ecliptic coordinates into right ascension and declination.
+ * @param longitude Ecliptic longitude in degrees
+ * @param latitude Ecliptic latitude in degrees
+ * @param obliquity Obliquity of the ecliptic in degrees
+ * @return Right ascension and declination in degrees
+ */
+export function eclipticToEquatorial(longitude: number, latitude: number, obliquity: number): { rightAscension: number, declination: number } {
+    const lambda = longitude * DEG;
+    const beta = latitude * DEG;
+    const epsilon = obliquity * DEG;
+    const rightAscension = Math.atan2(
+        Math.sin(lambda) * Math.cos(epsilon) - Math.tan(beta) * Math.sin(epsilon),
+        Math.cos(lambda)
+    ) / DEG;
+    const declination = Math.asin(
+        Math.sin(beta) * Math.cos(epsilon) + Math.cos(beta) * Math.sin(epsilon) * Math.sin(lambda)
+    ) / DEG;
+    return { rightAscension: (rightAscension + 360) % 360, declination };
+}
+
+/**
+ * Converts right ascension and declination into azimuth and elevation for an observer.
+ * @param rightAscension Right ascension in degrees
+ * @param declination Declination in degrees
+ * @param siderealTime Local sidereal time in degrees
+ * @param latitude Geographic latitude in degrees, north positive
+ * @return The position in the observer's sky
+ */
+export function equatorialToHorizontal(rightAscension: number, declination: number, siderealTime: number, latitude: number): HorizontalPosition {
+    const hourAngle = (siderealTime - rightAscension) * DEG;
+    const latRad = latitude * DEG;
+    const declinationRad = declination * DEG;
+
+    const elevation = Math.asin(Math.max(-1, Math.min(1,
+        Math.sin(latRad) * Math.sin(declinationRad) + Math.cos(latRad) * Math.cos(declinationRad) * Math.cos(hourAngle)
+    ))) / DEG;
+    const azimuth = Math.atan2(
+        Math.sin(hourAngle),
+        Math.cos(hourAngle) * Math.sin(latRad) - Math.tan(declinationRad) * Math.cos(latRad)
+    ) / DEG;
+
+    return { azimuth: (azimuth + 180 + 360) % 360, elevation };
+}
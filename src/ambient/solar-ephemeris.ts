@@ -0,0 +1,212 @@
+/**
+ * Solar position and event times after the NOAA Solar Calculator, which implements the algorithms from
+ * Jean Meeus, Astronomical Algorithms. Accurate to about a minute of time for the years 1800 BC to 4000 AD.
+ * All times are Julian days in Universal Time; angles are in degrees.
+ */
+
+/**
+ * Daily events of the sun that can be looked up by name.
+ */
+export type SolarEvent =
+    | 'sunrise'
+    | 'sunset'
+    | 'solarNoon'
+    | 'civilDawn'
+    | 'civilDusk'
+    | 'nauticalDawn'
+    | 'nauticalDusk';
+
+/**
+ * Names of all solar events, e.g. for validation.
+ */
+export const solarEvents: SolarEvent[] = [
+    'sunrise', 'sunset', 'solarNoon', 'civilDawn', 'civilDusk', 'nauticalDawn', 'nauticalDusk'
+];
+
+/**
+ * Zenith angle of the sun's center at each event that happens at a fixed depression below the horizon.
+ * Sunrise and sunset include 34' of refraction and the 16' radius of the solar disc.
+ */
+const eventZenith: Record<Exclude<SolarEvent, 'solarNoon'>, { zenith: number; rising: boolean }> = {
+    sunrise: { zenith: 90.833, rising: true },
+    sunset: { zenith: 90.833, rising: false },
+    civilDawn: { zenith: 96, rising: true },
+    civilDusk: { zenith: 96, rising: false },
+    nauticalDawn: { zenith: 102, rising: true },
+    nauticalDusk: { zenith: 102, rising: false }
+};
+
+const DEG = Math.PI / 180;
+
+/**
+ * Position of the sun as seen from a place on Earth.
+ */
+export interface SolarPosition {
+    azimuth: number; // clockwise from north
+    elevation: number; // above the horizon, including atmospheric refraction
+    declination: number;
+    equationOfTime: number; // in minutes
+}
+
+/**
+ * Converts a JavaScript timestamp into a Julian day.
+ * @param time Milliseconds since 1970-01-01T00:00:00Z
+ * @return The Julian day
+ */
+export function timeToJulianDay(time: number): number {
+    return time / 86400000 + 2440587.5;
+}
+
+/**
+ * Converts a Julian day into a JavaScript timestamp.
+ * @param julianDay The Julian day
+ * @return Milliseconds since 1970-01-01T00:00:00Z
+ */
+export function julianDayToTime(julianDay: number): number {
+    return (julianDay - 2440587.5) * 86400000;
+}
+
+/**
+ * Calculates the sun's declination and the equation of time.
+ * @param julianDay The moment in Universal Time
+ * @return Declination in degrees and equation of time in minutes
+ */
+function getSolarCoordinates(julianDay: number): { declination: number; equationOfTime: number } {
+    const t = (julianDay - 2451545) / 36525;
+
+    const meanLongitude = ((280.46646 + t * (36000.76983 + t * 0.0003032)) % 360 + 360) % 360;
+    const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+    const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+    const equationOfCenter = Math.sin(meanAnomaly * DEG) * (1.914602 - t * (0.004817 + 0.000014 * t))
+        + Math.sin(2 * meanAnomaly * DEG) * (0.019993 - 0.000101 * t)
+        + Math.sin(3 * meanAnomaly * DEG) * 0.000289;
+    const trueLongitude = meanLongitude + equationOfCenter;
+    const omega = 125.04 - 1934.136 * t;
+    const apparentLongitude = trueLongitude - 0.00569 - 0.00478 * Math.sin(omega * DEG);
+
+    const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+    const obliquity = meanObliquity + 0.00256 * Math.cos(omega * DEG);
+
+    const declination = Math.asin(Math.sin(obliquity * DEG) * Math.sin(apparentLongitude * DEG)) / DEG;
+
+    const y = Math.tan(obliquity * DEG / 2) ** 2;
+    const l0 = meanLongitude * DEG;
+    const m = meanAnomaly * DEG;
+    const equationOfTime = 4 / DEG * (
+        y * Math.sin(2 * l0)
+        - 2 * eccentricity * Math.sin(m)
+        + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+        - 0.5 * y * y * Math.sin(4 * l0)
+        - 1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+    return { declination, equationOfTime };
+}
+
+/**
+ * Estimates how much the atmosphere lifts the sun's apparent position near the horizon.
+ * @param elevation The geometric elevation in degrees
+ * @return The refraction correction in degrees
+ */
+function getRefraction(elevation: number): number {
+    if (elevation > 85) {
+        return 0;
+    }
+    const tanElevation = Math.tan(elevation * DEG);
+    let arcSeconds: number;
+    if (elevation > 5) {
+        arcSeconds = 58.1 / tanElevation - 0.07 / tanElevation ** 3 + 0.000086 / tanElevation ** 5;
+    } else if (elevation > -0.575) {
+        arcSeconds = 1735 + elevation * (-518.2 + elevation * (103.4 + elevation * (-12.79 + elevation * 0.711)));
+    } else {
+        arcSeconds = -20.772 / tanElevation;
+    }
+    return arcSeconds / 3600;
+}
+
+/**
+ * Calculates where the sun appears in the sky at a given moment and place.
+ * @param julianDay The moment in Universal Time
+ * @param latitude Geographic latitude in degrees, north positive
+ * @param longitude Geographic longitude in degrees, east positive
+ * @return The apparent solar position
+ */
+export function getSolarPosition(julianDay: number, latitude: number, longitude: number): SolarPosition {
+    const { declination, equationOfTime } = getSolarCoordinates(julianDay);
+
+    const minutesOfDay = ((julianDay + 0.5) % 1) * 1440;
+    const trueSolarTime = ((minutesOfDay + equationOfTime + 4 * longitude) % 1440 + 1440) % 1440;
+    const hourAngle = trueSolarTime / 4 - 180;
+
+    const latRad = latitude * DEG;
+    const declinationRad = declination * DEG;
+    const hourAngleRad = hourAngle * DEG;
+
+    const cosZenith = Math.min(1, Math.max(-1,
+        Math.sin(latRad) * Math.sin(declinationRad)
+        + Math.cos(latRad) * Math.cos(declinationRad) * Math.cos(hourAngleRad)
+    ));
+    const zenith = Math.acos(cosZenith) / DEG;
+    const geometricElevation = 90 - zenith;
+
+    const azimuthRad = Math.atan2(
+        Math.sin(hourAngleRad),
+        Math.cos(hourAngleRad) * Math.sin(latRad) - Math.tan(declinationRad) * Math.cos(latRad)
+    );
+    const azimuth = (azimuthRad / DEG + 180 + 360) % 360;
+
+    return {
+        azimuth,
+        elevation: geometricElevation + getRefraction(geometricElevation),
+        declination,
+        equationOfTime
+    };
+}
+
+/**
+ * Calculates the moment of solar noon, when the sun crosses the meridian.
+ * @param dayStart Julian day at 0h Universal Time of the date
+ * @param longitude Geographic longitude in degrees, east positive
+ * @return Julian day of solar noon
+ */
+export function getSolarNoon(dayStart: number, longitude: number): number {
+    let noon = dayStart + (720 - 4 * longitude) / 1440;
+    // The equation of time changes slowly, two refinements are plenty
+    for (let i = 0; i < 2; i++) {
+        const { equationOfTime } = getSolarCoordinates(noon);
+        noon = dayStart + (720 - 4 * longitude - equationOfTime) / 1440;
+    }
+    return noon;
+}
+
+/**
+ * Calculates the moment of a daily solar event.
+ * @param event The event to look up
+ * @param dayStart Julian day at 0h Universal Time of the date
+ * @param latitude Geographic latitude in degrees, north positive
+ * @param longitude Geographic longitude in degrees, east positive
+ * @return Julian day of the event, or null if the sun does not reach that depression on this day
+ */
+export function getSolarEventTime(event: SolarEvent, dayStart: number, latitude: number, longitude: number): number | null {
+    const noon = getSolarNoon(dayStart, longitude);
+    if (event === 'solarNoon') {
+        return noon;
+    }
+
+    const { zenith, rising } = eventZenith[event];
+    let time = noon + (rising ? -0.25 : 0.25);
+    for (let i = 0; i < 3; i++) {
+        const { declination, equationOfTime } = getSolarCoordinates(time);
+        const latRad = latitude * DEG;
+        const declinationRad = declination * DEG;
+        const cosHourAngle = Math.cos(zenith * DEG) / (Math.cos(latRad) * Math.cos(declinationRad))
+            - Math.tan(latRad) * Math.tan(declinationRad);
+        if (cosHourAngle < -1 || cosHourAngle > 1) {
+            return null;
+        }
+        const hourAngle = Math.acos(cosHourAngle) / DEG;
+        const minutes = 720 - 4 * (longitude + (rising ? hourAngle : -hourAngle)) - equationOfTime;
+        time = dayStart + minutes / 1440;
+    }
+    return time;
+}
@@ -1,10 +1,21 @@
 import * as THREE from 'three';
 import { getReferenceDistance } from '../util';
+import { calendarDateToDate, dateToCalendarDate, toJulianDay, type CalendarDate, type CalendarSystem } from './calendar';
+import {
+    getSolarEventTime,
+    getSolarPosition,
+    julianDayToTime,
+    timeToJulianDay,
+    type SolarEvent
+} from './solar-ephemeris';
 
 /**
  * Manages the sun's position and lighting based on real-world solar calculations.
- * Simulates accurate sun movement across the sky using geographic location and time.
+ * Simulates accurate sun movement across the sky using geographic location and time,
+ * and answers when the sun rises, sets and crosses the meridian on a given day.
+ * Times of day are read as wall-clock time in the configured timezone.
  * The sun automatically adjusts its color and intensity throughout the day for realistic lighting.
+ * Defaults to Biberach an der Riß and accepts historic dates in the Julian or Gregorian calendar.
  */
 export class Sun {
     private light!: THREE.DirectionalLight;
@@ -12,17 +23,18 @@ export class Sun {
     private scene: THREE.Scene;
     private orbitRadius!: number;
 
-    private latitude: number = 52.5;
-    private longitude: number = 13.4;
+    private latitude: number = 48.0986;
+    private longitude: number = 9.7878;
     private timezone: number = 1;
     private customDateTime: Date | null = null;
     private lastSolarInfo: { azimuth: number, elevation: number, isDay: boolean } | null = null;
+    private onDayChangeCallback?: () => void;
 
     /**
      * Creates a new sun system with accurate solar positioning.
      * @param scene The Three.js scene to add the sun to
-     * @param latitude Geographic latitude in degrees (defaults to 52.5 for Berlin)
-     * @param longitude Geographic longitude in degrees (defaults to 13.4 for Berlin)
+     * @param latitude Geographic latitude in degrees (defaults to 48.0986 for Biberach an der Riß)
+     * @param longitude Geographic longitude in degrees (defaults to 9.7878 for Biberach an der Riß)
      * @param timezone Timezone offset from UTC in hours (defaults to 1 for CET)
      */
     constructor(scene: THREE.Scene, latitude?: number, longitude?: number, timezone?: number) {
@@ -70,47 +82,55 @@ export class Sun {
     }
 
     /**
-     * Calculates the sun's position in the sky using astronomical formulas.
-     * Takes into account the date, time, location, and equation of time for accurate positioning.
+     * Calculates the sun's position in the sky with the NOAA solar position algorithm.
+     * Takes into account the date, time, location, equation of time and atmospheric refraction.
      * @return Object containing azimuth (compass direction) and elevation (height above horizon) in degrees
      */
     private calculateSolarPosition(): { azimuth: number, elevation: number } {
-        const now = this.customDateTime || new Date();
-        const startOfYear = new Date(now.getFullYear(), 0, 1);
-        const dayOfYear = Math.floor((now.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        const B = (dayOfYear - 81) * 2 * Math.PI / 365;
-        const equationOfTime = 9.87 * Math.sin(2 * B) - 7.53 * Math.cos(B) - 1.5 * Math.sin(B);
-        const localStandardTime = now.getHours() + now.getMinutes() / 60 + now.getSeconds() / 3600;
-        const longitudeCorrection = (this.longitude - (this.timezone * 15)) / 15; // 15 degrees per hour
-        const solarTime = localStandardTime + longitudeCorrection + equationOfTime / 60;
-        const hourAngle = 15 * (solarTime - 12); // degrees
-        const declination = 23.45 * Math.sin((284 + dayOfYear) * 2 * Math.PI / 365);
-        
-        const latRad = this.latitude * Math.PI / 180;
-        const hourAngleRad = hourAngle * Math.PI / 180;
-        const declinationRad = declination * Math.PI / 180;
-        
-        const elevationRad = Math.asin(
-            Math.sin(latRad) * Math.sin(declinationRad) + 
-            Math.cos(latRad) * Math.cos(declinationRad) * Math.cos(hourAngleRad)
-        );
-        
-        const azimuthRad = Math.atan2(
-            Math.sin(hourAngleRad),
-            Math.cos(hourAngleRad) * Math.sin(latRad) - Math.tan(declinationRad) * Math.cos(latRad)
-        );
-        
-        let azimuth = azimuthRad * 180 / Math.PI;
-        if (azimuth < 0) azimuth += 360;
-        
+        const position = getSolarPosition(this.getJulianDay(), this.latitude, this.longitude);
         return {
-            azimuth: azimuth,
-            elevation: elevationRad * 180 / Math.PI
+            azimuth: position.azimuth,
+            elevation: position.elevation
         };
     }
 
+    /**
+     * Reads a date as wall-clock time in the configured timezone and converts it to a UTC timestamp.
+     * @param date The date whose local date and time components are used
+     * @return Milliseconds since 1970-01-01T00:00:00Z
+     */
+    private toUniversalTime(date: Date): number {
+        const time = Date.UTC(
+            date.getFullYear(), date.getMonth(), date.getDate(),
+            date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+        );
+        return time - this.timezone * 3600000;
+    }
+
+    /**
+     * Converts a UTC timestamp into a date showing the wall-clock time in the configured timezone.
+     * @param time Milliseconds since 1970-01-01T00:00:00Z
+     * @return A date whose local date and time components are the time in the configured timezone
+     */
+    private fromUniversalTime(time: number): Date {
+        const wallClock = new Date(time + this.timezone * 3600000);
+        const date = new Date(2000, 0, 1);
+        date.setFullYear(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate());
+        date.setHours(wallClock.getUTCHours(), wallClock.getUTCMinutes(), wallClock.getUTCSeconds(), 0);
+        return date;
+    }
+
+    /**
+     * Gets the moment used for solar calculations as a Julian day, e.g. to place the moon and stars at the same time.
+     * @return Julian day in Universal Time of the custom date, or of now if the sun follows real time
+     */
+    public getJulianDay(): number {
+        return timeToJulianDay(this.toUniversalTime(this.customDateTime || new Date()));
+    }
+
     /**
      * Converts solar angles (azimuth and elevation) to a 3D position in the scene.
+     * The models are laid out with x pointing west and z pointing south, so the noon sun stands on +z.
      * @param azimuth The compass direction in degrees (0 = north, 90 = east, 180 = south, 270 = west)
      * @param elevation The height above horizon in degrees (0 = horizon, 90 = directly overhead)
      * @return The 3D position where the sun should be placed
@@ -119,9 +139,9 @@ export class Sun {
         const azimuthRad = azimuth * Math.PI / 180;
         const elevationRad = elevation * Math.PI / 180;
         
-        const x = Math.cos(elevationRad) * Math.sin(azimuthRad) * this.orbitRadius;
+        const x = -Math.cos(elevationRad) * Math.sin(azimuthRad) * this.orbitRadius;
         const y = Math.sin(elevationRad) * this.orbitRadius;
-        const z = Math.cos(elevationRad) * Math.cos(azimuthRad) * this.orbitRadius;
+        const z = -Math.cos(elevationRad) * Math.cos(azimuthRad) * this.orbitRadius;
         
         return new THREE.Vector3(x, y, z);
     }
@@ -227,6 +247,7 @@ export class Sun {
         this.timezone = timezone;
         this.lastSolarInfo = null;
         console.log(`Sun location updated: Lat ${latitude}°, Lon ${longitude}°, Timezone UTC+${timezone}`);
+        this.notifyDayChange();
     }
 
     /**
@@ -235,18 +256,147 @@ export class Sun {
      * @param dateTime The date and time to use for solar calculations
      */
     public setCustomDateTime(dateTime: Date): void {
+        const previousDay = (this.customDateTime || new Date()).toDateString();
         this.customDateTime = new Date(dateTime);
         this.lastSolarInfo = null;
         console.log(`Sun time set to: ${this.customDateTime.toLocaleString()}`);
+        if (this.customDateTime.toDateString() !== previousDay) {
+            this.notifyDayChange();
+        }
+    }
+
+    /**
+     * Gets the custom date and time used for solar calculations.
+     * @return A copy of the custom date, or null if the sun follows real time
+     */
+    public getCustomDateTime(): Date | null {
+        return this.customDateTime ? new Date(this.customDateTime) : null;
+    }
+
+    /**
+     * Sets the calendar date used for solar calculations while keeping the current time of day.
+     * Dates before 15 October 1582 are usually Julian; the calendar of the date decides how it is converted.
+     * @param date The calendar date, e.g. { year: 1600, month: 6, day: 11, calendar: 'julian' }
+     */
+    public setCalendarDate(date: CalendarDate): void {
+        const current = this.customDateTime || new Date();
+        this.setCustomDateTime(calendarDateToDate(date, current.getHours(), current.getMinutes(), current.getSeconds()));
+    }
+
+    /**
+     * Gets the calendar date used for solar calculations.
+     * @param calendar The calendar to express the date in; defaults to the calendar in use on that date
+     * @return The calendar date of the custom date, or of today if the sun follows real time
+     */
+    public getCalendarDate(calendar?: CalendarSystem): CalendarDate {
+        return dateToCalendarDate(this.customDateTime || new Date(), calendar);
+    }
+
+    /**
+     * Calculates when a daily solar event happens at the configured location.
+     * @param event The event, e.g. 'sunset' or 'civilDusk'
+     * @param date The day to look at; defaults to the day of the custom date or today
+     * @return The time of the event, or null if it does not happen on that day (e.g. no night near midsummer)
+     */
+    public getSolarEventTime(event: SolarEvent, date?: Date): Date | null {
+        const day = date || this.customDateTime || new Date();
+        const dayStart = toJulianDay(day.getFullYear(), day.getMonth() + 1, day.getDate(), 'gregorian');
+        const julianDay = getSolarEventTime(event, dayStart, this.latitude, this.longitude);
+        return julianDay === null ? null : this.fromUniversalTime(julianDayToTime(julianDay));
+    }
+
+    /**
+     * Calculates when the upper edge of the sun rises above the horizon.
+     * @param date The day to look at; defaults to the day of the custom date or today
+     * @return The time of sunrise, or null if the sun does not rise that day
+     */
+    public getSunrise(date?: Date): Date | null {
+        return this.getSolarEventTime('sunrise', date);
+    }
+
+    /**
+     * Calculates when the upper edge of the sun sets below the horizon.
+     * @param date The day to look at; defaults to the day of the custom date or today
+     * @return The time of sunset, or null if the sun does not set that day
+     */
+    public getSunset(date?: Date): Date | null {
+        return this.getSolarEventTime('sunset', date);
+    }
+
+    /**
+     * Calculates when the sun crosses the meridian and stands highest.
+     * @param date The day to look at; defaults to the day of the custom date or today
+     * @return The time of solar noon
+     */
+    public getSolarNoon(date?: Date): Date {
+        return this.getSolarEventTime('solarNoon', date) as Date;
+    }
+
+    /**
+     * Calculates civil twilight, while the sun is less than 6° below the horizon.
+     * @param date The day to look at; defaults to the day of the custom date or today
+     * @return Start of morning twilight (dawn) and end of evening twilight (dusk), each null if it does not happen
+     */
+    public getCivilTwilight(date?: Date): { dawn: Date | null, dusk: Date | null } {
+        return {
+            dawn: this.getSolarEventTime('civilDawn', date),
+            dusk: this.getSolarEventTime('civilDusk', date)
+        };
+    }
+
+    /**
+     * Calculates nautical twilight, while the sun is less than 12° below the horizon.
+     * @param date The day to look at; defaults to the day of the custom date or today
+     * @return Start of morning twilight (dawn) and end of evening twilight (dusk), each null if it does not happen
+     */
+    public getNauticalTwilight(date?: Date): { dawn: Date | null, dusk: Date | null } {
+        return {
+            dawn: this.getSolarEventTime('nauticalDawn', date),
+            dusk: this.getSolarEventTime('nauticalDusk', date)
+        };
+    }
+
+    /**
+     * Gets the geographic location used for solar position calculations.
+     * @return Object with latitude, longitude in degrees and timezone offset in hours
+     */
+    public getLocation(): { latitude: number, longitude: number, timezone: number } {
+        return {
+            latitude: this.latitude,
+            longitude: this.longitude,
+            timezone: this.timezone
+        };
     }
 
     /**
      * Stops using custom time and returns to using the current real time.
      */
     public resetToCurrentTime(): void {
+        const previousDay = (this.customDateTime || new Date()).toDateString();
         this.customDateTime = null;
         this.lastSolarInfo = null;
         console.log('Sun time reset to current time');
+        if (new Date().toDateString() !== previousDay) {
+            this.notifyDayChange();
+        }
+    }
+
+    /**
+     * Calls the registered callback when the times of sunrise, sunset and twilight may have changed.
+     */
+    private notifyDayChange(): void {
+        if (this.onDayChangeCallback) {
+            this.onDayChangeCallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called when the sun moves to another day or location,
+     * e.g. to move the sunrise and sunset marks when a tour jumps to another date.
+     * @param callback Function to call
+     */
+    public onDayChange(callback: () => void): void {
+        this.onDayChangeCallback = callback;
     }
 
     /**
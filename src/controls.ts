@@ -1,17 +1,22 @@
 /**
  * Manages UI control buttons and connects them to their actions.
- * Provides easy registration of click handlers for slideshow, time picker, fog, clouds, lanterns, and tours.
+ * Provides easy registration of click handlers for slideshow, time picker, fog, clouds, lanterns, tours, points of interest, the tour editor, the settings, the minimap and the plan view.
  */
 export class Controls {
 
     private previousButton: HTMLButtonElement;
     private nextButton: HTMLButtonElement;
     private tourControlButton: HTMLButtonElement;
+    private poiControlButton: HTMLButtonElement;
     private timePickerButton: HTMLButtonElement;
     private fogControlButton: HTMLButtonElement;
     private cloudControlButton: HTMLButtonElement;
     private lanternControlButton: HTMLButtonElement;
     private fullscreenButton: HTMLButtonElement;
+    private tourEditorButton: HTMLButtonElement;
+    private settingsButton: HTMLButtonElement;
+    private minimapButton: HTMLButtonElement;
+    private planViewButton: HTMLButtonElement;
 
     /**
      * Creates a new controls manager and finds all control buttons in the HTML.
@@ -20,11 +25,16 @@ export class Controls {
         this.previousButton = document.getElementById('previous') as HTMLButtonElement;
         this.nextButton = document.getElementById('next') as HTMLButtonElement;
         this.tourControlButton = document.getElementById('tours-control') as HTMLButtonElement;
+        this.poiControlButton = document.getElementById('poi-control') as HTMLButtonElement;
         this.timePickerButton = document.getElementById('time-picker') as HTMLButtonElement;
         this.fogControlButton = document.getElementById('fog-control') as HTMLButtonElement;
         this.cloudControlButton = document.getElementById('cloud-control') as HTMLButtonElement;
         this.lanternControlButton = document.getElementById('lantern-control') as HTMLButtonElement;
         this.fullscreenButton = document.getElementById('fullscreen') as HTMLButtonElement;
+        this.tourEditorButton = document.getElementById('tour-editor') as HTMLButtonElement;
+        this.settingsButton = document.getElementById('settings') as HTMLButtonElement;
+        this.minimapButton = document.getElementById('minimap-toggle') as HTMLButtonElement;
+        this.planViewButton = document.getElementById('plan-view-toggle') as HTMLButtonElement;
     }
 
     /**
@@ -51,6 +61,14 @@ export class Controls {
         this.tourControlButton.addEventListener('click', action);
     }
 
+    /**
+     * Connects an action to the points of interest button.
+     * @param action The function to call when the button is clicked
+     */
+    registerPoiControlButton(action: () => void): void {
+        this.poiControlButton.addEventListener('click', action);
+    }
+
     /**
      * Connects an action to the time picker button.
      * @param action The function to call when the button is clicked
@@ -90,4 +108,36 @@ export class Controls {
     registerFullscreenButton(action: () => void): void {
         this.fullscreenButton.addEventListener('click', action);
     }
-}
\ No newline at end of file
+
+    /**
+     * Connects an action to the tour editor button.
+     * @param action The function to call when the button is clicked
+     */
+    registerTourEditorButton(action: () => void): void {
+        this.tourEditorButton.addEventListener('click', action);
+    }
+
+    /**
+     * Connects an action to the settings button.
+     * @param action The function to call when the button is clicked
+     */
+    registerSettingsButton(action: () => void): void {
+        this.settingsButton.addEventListener('click', action);
+    }
+
+    /**
+     * Connects an action to the minimap button.
+     * @param action The function to call when the button is clicked
+     */
+    registerMinimapButton(action: () => void): void {
+        this.minimapButton.addEventListener('click', action);
+    }
+
+    /**
+     * Connects an action to the plan view button.
+     * @param action The function to call when the button is clicked
+     */
+    registerPlanViewButton(action: () => void): void {
+        this.planViewButton.addEventListener('click', action);
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * An image of a building with an optional caption.
+ */
+export interface BuildingImage {
+    src: string;
+    caption?: string;
+}
+
+/**
+ * Everything the catalogue knows about a building.
+ */
+export interface BuildingInfo {
+    name: string;
+    description?: string;
+    dates?: string[]; // short notes such as "1372 first mentioned"
+    images?: BuildingImage[];
+}
+
+/**
+ * The structure of the building catalogue in `public/buildings`, keyed by the node names of the 3D models.
+ */
+export interface BuildingCatalogue {
+    description?: string;
+    buildings: Record<string, BuildingInfo>;
+}
+
+/**
+ * A side panel that tells the name, history and pictures of a selected building.
+ * The texts come from a catalogue file that maps node names of the 3D models to building descriptions.
+ */
+export class BuildingInfoPanel {
+    private container: HTMLElement;
+    private titleElement: HTMLElement;
+    private datesElement: HTMLElement;
+    private descriptionElement: HTMLElement;
+    private imagesElement: HTMLElement;
+    private nodeElement: HTMLElement;
+    private catalogue: BuildingCatalogue = { buildings: {} };
+
+    /**
+     * Creates the building info panel.
+     */
+    constructor() {
+        this.container = document.getElementById('building-info') as HTMLElement;
+        this.titleElement = document.getElementById('building-info-title') as HTMLElement;
+        this.datesElement = document.getElementById('building-info-dates') as HTMLElement;
+        this.descriptionElement = document.getElementById('building-info-description') as HTMLElement;
+        this.imagesElement = document.getElementById('building-info-images') as HTMLElement;
+        this.nodeElement = document.getElementById('building-info-node') as HTMLElement;
+
+        if (!this.container || !this.titleElement || !this.datesElement || !this.descriptionElement
+            || !this.imagesElement || !this.nodeElement) {
+            console.error('Building info elements not found');
+            return;
+        }
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Sets up the close button and closing the panel with Escape.
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+        document.getElementById('building-info-close')?.addEventListener('click', () => {
+            this.close();
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isOpen()) {
+                this.close();
+            }
+        });
+    }
+
+    /**
+     * Loads the building catalogue.
+     * @param url The URL of the catalogue JSON file
+     * @return Promise that resolves once the catalogue is loaded
+     */
+    public async loadCatalogue(url: string = '/buildings/catalogue.json'): Promise<void> {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const catalogue = await response.json();
+            // A malformed file keeps the empty catalogue, since every hover looks names up in it
+            if (typeof catalogue?.buildings !== 'object' || catalogue.buildings === null || Array.isArray(catalogue.buildings)) {
+                throw new Error('the file has no "buildings" object');
+            }
+            this.catalogue = catalogue;
+        } catch (error) {
+            console.error(`Failed to load building catalogue ${url}:`, error);
+        }
+    }
+
+    /**
+     * Checks whether the catalogue has an entry for a node name.
+     * @param name The node name of the 3D model
+     * @return True if the building is described in the catalogue
+     */
+    public hasEntry(name: string): boolean {
+        return Object.hasOwn(this.catalogue.buildings, name);
+    }
+
+    /**
+     * Shows the catalogue entry of the first node name that has one.
+     * Buildings without an entry are shown with their node name, so the catalogue can be extended easily.
+     * @param names Node names of the selected object and its ancestors, nearest first
+     */
+    public show(names: string[]): void {
+        if (!this.container) return;
+
+        const name = names.find((candidate) => this.hasEntry(candidate));
+        const info = name ? this.catalogue.buildings[name] : null;
+
+        this.titleElement.textContent = info?.name ?? 'Unknown building';
+        this.nodeElement.textContent = name ?? names[0] ?? '';
+
+        this.datesElement.innerHTML = '';
+        (info?.dates ?? []).forEach((date) => {
+            const item = document.createElement('li');
+            item.textContent = date;
+            this.datesElement.appendChild(item);
+        });
+        this.datesElement.style.display = info?.dates?.length ? 'block' : 'none';
+
+        this.descriptionElement.textContent = info?.description ?? 'There is no description for this building yet.';
+
+        this.imagesElement.innerHTML = '';
+        (info?.images ?? []).forEach((image) => {
+            const figure = document.createElement('figure');
+            const img = document.createElement('img');
+            img.src = image.src;
+            img.alt = image.caption ?? info?.name ?? '';
+            img.loading = 'lazy';
+            figure.appendChild(img);
+            if (image.caption) {
+                const caption = document.createElement('figcaption');
+                caption.textContent = image.caption;
+                figure.appendChild(caption);
+            }
+            this.imagesElement.appendChild(figure);
+        });
+
+        this.container.classList.add('show');
+    }
+
+    /**
+     * Hides the panel.
+     */
+    public close(): void {
+        this.container?.classList.remove('show');
+    }
+
+    /**
+     * Checks if the panel is currently visible.
+     * @return True if visible, false if hidden
+     */
+    public isOpen(): boolean {
+        return this.container?.classList.contains('show') ?? false;
+    }
+}
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import type { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
+
+/**
+ * A building or other object found under the pointer.
+ */
+export interface PickedObject {
+    object: THREE.Object3D; // the picked node, a direct child of a registered model or a catalogued node
+    names: string[]; // names of the picked node and its ancestors, nearest first, used to look it up in the catalogue
+    point: THREE.Vector3;
+}
+
+/**
+ * Finds the building under the mouse pointer, or at the center of the screen while the pointer is locked,
+ * and highlights it. Clicking a highlighted building while looking around, or tapping it on a touch screen, selects it.
+ * Uses raycasting against the meshes of the registered models, like the collision detector.
+ */
+export class BuildingPicker {
+    private camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    private controls: PointerLockControls;
+    private scene: THREE.Scene;
+    private raycaster: THREE.Raycaster;
+    private roots: THREE.Object3D[] = [];
+    private pickableMeshes: THREE.Mesh[] = [];
+    private meshCacheDirty: boolean = true;
+    private isKnownName: (name: string) => boolean = () => false;
+    private pointer = new THREE.Vector2();
+    private pointerOverScene: boolean = false;
+    private hovered: PickedObject | null = null;
+    private highlight: THREE.Group;
+    private highlightMaterial: THREE.MeshBasicMaterial;
+    private enabled: boolean = true;
+    private lastPick: number = 0;
+    private pickInterval: number;
+    private onSelectCallback?: (picked: PickedObject) => void;
+
+    /**
+     * Creates the picker and starts following the pointer.
+     * @param scene The Three.js scene the highlight is added to
+     * @param camera The camera the rays are cast from
+     * @param controls The pointer lock controls, to know whether the pointer or the screen center is used
+     * @param pickInterval Minimum time between two hover checks in milliseconds
+     */
+    constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, controls: PointerLockControls, pickInterval: number = 100) {
+        this.scene = scene;
+        this.camera = camera;
+        this.controls = controls;
+        this.pickInterval = pickInterval;
+        this.raycaster = new THREE.Raycaster();
+
+        this.highlightMaterial = new THREE.MeshBasicMaterial({
+            color: 0xffc44d,
+            transparent: true,
+            opacity: 0.35,
+            depthWrite: false,
+            polygonOffset: true,
+            polygonOffsetFactor: -1,
+            polygonOffsetUnits: -1
+        });
+        this.highlight = new THREE.Group();
+        this.highlight.userData.skipCollision = true;
+        this.scene.add(this.highlight);
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Follows the mouse over the scene and selects the highlighted building on click while looking around.
+     */
+    private setupEventListeners(): void {
+        document.addEventListener('pointermove', (e) => {
+            const target = e.target as HTMLElement;
+            this.pointerOverScene = target.id === 'blocker' || (target.tagName === 'CANVAS' && target.closest('#app') !== null);
+            this.pointer.set((e.clientX / window.innerWidth) * 2 - 1, -(e.clientY / window.innerHeight) * 2 + 1);
+        });
+        document.addEventListener('click', () => {
+            if (!this.enabled || !this.controls.isLocked) return;
+            const picked = this.pick(new THREE.Vector2(0, 0));
+            if (picked) {
+                this.controls.unlock();
+                this.notifySelect(picked);
+            }
+        });
+    }
+
+    /**
+     * Changes the camera the rays are cast from, e.g. to the orthographic camera of the plan view.
+     * @param camera The camera the scene is seen through
+     */
+    public setCamera(camera: THREE.PerspectiveCamera | THREE.OrthographicCamera): void {
+        this.camera = camera;
+    }
+
+    /**
+     * Adds a loaded model whose parts can be picked.
+     * @param root The root object of the model, e.g. the scene of a loaded GLTF
+     */
+    public addObject(root: THREE.Object3D): void {
+        this.roots.push(root);
+        this.invalidateCache();
+    }
+
+    /**
+     * Sets how names are recognized as catalogued buildings.
+     * A catalogued ancestor of a hit mesh is picked as a whole instead of the top-level part of the model.
+     * @param isKnownName Function that tells whether a node name has a catalogue entry
+     */
+    public setKnownNames(isKnownName: (name: string) => boolean): void {
+        this.isKnownName = isKnownName;
+    }
+
+    /**
+     * Collects all meshes of the registered models that can be picked.
+     * Meshes with `skipCollision` in userData are ignored.
+     */
+    private collectPickableMeshes(): void {
+        this.pickableMeshes = [];
+        this.roots.forEach((root) => {
+            root.traverse((object) => {
+                if (object instanceof THREE.Mesh && object.geometry && !object.userData.skipCollision) {
+                    this.pickableMeshes.push(object);
+                }
+            });
+        });
+        this.meshCacheDirty = false;
+    }
+
+    /**
+     * Marks the mesh cache as dirty so it will be rebuilt on next use.
+     */
+    public invalidateCache(): void {
+        this.meshCacheDirty = true;
+    }
+
+    /**
+     * Finds the building at a point on the screen.
+     * @param ndc The point in normalized device coordinates (-1 to 1, y up)
+     * @return The picked building, or null if nothing pickable is there
+     */
+    public pick(ndc: THREE.Vector2): PickedObject | null {
+        if (this.meshCacheDirty) {
+            this.collectPickableMeshes();
+        }
+        if (this.pickableMeshes.length === 0) {
+            return null;
+        }
+
+        this.raycaster.setFromCamera(ndc, this.camera);
+        const intersections = this.raycaster.intersectObjects(this.pickableMeshes, false);
+        if (intersections.length === 0) {
+            return null;
+        }
+
+        const hit = intersections[0];
+        const names: string[] = [];
+        let picked: THREE.Object3D | null = null;
+        let current: THREE.Object3D | null = hit.object;
+        while (current && !this.roots.includes(current)) {
+            if (current.name) {
+                names.push(current.name);
+            }
+            if (!picked && current.name && this.isKnownName(current.name)) {
+                picked = current;
+            }
+            if (!picked && current.parent && this.roots.includes(current.parent)) {
+                picked = current;
+            }
+            current = current.parent;
+        }
+
+        return { object: picked ?? hit.object, names, point: hit.point.clone() };
+    }
+
+    /**
+     * Highlights and selects the building at a point on the screen, e.g. where the user tapped.
+     * @param ndc The point in normalized device coordinates (-1 to 1, y up)
+     */
+    public select(ndc: THREE.Vector2): void {
+        if (!this.enabled) return;
+        const picked = this.pick(ndc);
+        this.setHovered(picked);
+        if (picked) {
+            this.notifySelect(picked);
+        }
+    }
+
+    /**
+     * Updates the highlighted building under the pointer or at the screen center. Call this every frame.
+     */
+    public update(): void {
+        if (!this.enabled) return;
+        const now = performance.now();
+        if (now - this.lastPick < this.pickInterval) return;
+        this.lastPick = now;
+
+        let picked: PickedObject | null = null;
+        if (this.controls.isLocked) {
+            picked = this.pick(new THREE.Vector2(0, 0));
+        } else if (this.pointerOverScene) {
+            picked = this.pick(this.pointer);
+        }
+        this.setHovered(picked);
+    }
+
+    /**
+     * Highlights a building, replacing the previous highlight.
+     * @param picked The building to highlight, or null to remove the highlight
+     */
+    private setHovered(picked: PickedObject | null): void {
+        if (picked?.object === this.hovered?.object) {
+            this.hovered = picked;
+            return;
+        }
+        this.hovered = picked;
+        this.highlight.clear();
+        if (!picked) return;
+
+        // Overlay copies share the geometry, so the materials of the model stay untouched
+        picked.object.updateWorldMatrix(true, true);
+        picked.object.traverse((object) => {
+            if (!(object instanceof THREE.Mesh)) return;
+            const overlay = new THREE.Mesh(object.geometry, this.highlightMaterial);
+            overlay.matrixAutoUpdate = false;
+            overlay.matrix.copy(object.matrixWorld);
+            overlay.userData.skipCollision = true;
+            this.highlight.add(overlay);
+        });
+    }
+
+    /**
+     * Gets the building that is currently highlighted.
+     * @return The highlighted building, or null if there is none
+     */
+    public getHovered(): PickedObject | null {
+        return this.hovered;
+    }
+
+    /**
+     * Turns picking on or off, e.g. while a tour is playing.
+     * @param enabled Whether buildings are highlighted and can be selected
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.setHovered(null);
+        }
+    }
+
+    /**
+     * Calls the registered callback with a selected building.
+     * @param picked The selected building
+     */
+    private notifySelect(picked: PickedObject): void {
+        if (this.onSelectCallback) {
+            this.onSelectCallback(picked);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user selects a building.
+     * @param callback Function that receives the selected building
+     */
+    public onSelect(callback: (picked: PickedObject) => void): void {
+        this.onSelectCallback = callback;
+    }
+}
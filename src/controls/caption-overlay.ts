@@ -0,0 +1,91 @@
+import type { TourCaption } from '../tours/tour';
+
+/**
+ * Shows the caption of the current tour step as an overlay at the bottom of the screen.
+ * Plays the step's narration clip, if it has one, and pauses it together with the tour.
+ */
+export class CaptionOverlay {
+    private container: HTMLElement;
+    private titleElement: HTMLElement;
+    private bodyElement: HTMLElement;
+    private audio: HTMLAudioElement | null = null;
+    private paused: boolean = false;
+
+    /**
+     * Creates the caption overlay.
+     */
+    constructor() {
+        this.container = document.getElementById('tour-caption') as HTMLElement;
+        this.titleElement = document.getElementById('tour-caption-title') as HTMLElement;
+        this.bodyElement = document.getElementById('tour-caption-body') as HTMLElement;
+
+        if (!this.container || !this.titleElement || !this.bodyElement) {
+            console.error('Tour caption elements not found');
+        }
+    }
+
+    /**
+     * Shows a caption and starts its narration, replacing any caption shown before.
+     * @param caption The caption to show, or null to hide the overlay
+     */
+    public show(caption: TourCaption | null): void {
+        this.stopAudio();
+        if (!this.container) return;
+
+        if (!caption || (!caption.title && !caption.body && !caption.audio)) {
+            this.container.classList.remove('show');
+            return;
+        }
+
+        this.titleElement.textContent = caption.title ?? '';
+        this.titleElement.style.display = caption.title ? 'block' : 'none';
+        this.bodyElement.textContent = caption.body ?? '';
+        this.bodyElement.style.display = caption.body ? 'block' : 'none';
+        if (caption.title || caption.body) {
+            this.container.classList.add('show');
+        } else {
+            this.container.classList.remove('show');
+        }
+
+        if (caption.audio) {
+            this.audio = new Audio(caption.audio);
+            if (!this.paused) {
+                this.playAudio();
+            }
+        }
+    }
+
+    /**
+     * Pauses or resumes the narration, e.g. when the tour is paused.
+     * @param paused Whether the narration should be paused
+     */
+    public setPaused(paused: boolean): void {
+        if (paused === this.paused) return;
+        this.paused = paused;
+        if (!this.audio) return;
+        if (paused) {
+            this.audio.pause();
+        } else {
+            this.playAudio();
+        }
+    }
+
+    /**
+     * Starts or continues the current narration clip.
+     */
+    private playAudio(): void {
+        this.audio?.play().catch((error) => {
+            console.error('Failed to play tour narration:', error);
+        });
+    }
+
+    /**
+     * Stops and releases the current narration clip.
+     */
+    private stopAudio(): void {
+        if (this.audio) {
+            this.audio.pause();
+            this.audio = null;
+        }
+    }
+}
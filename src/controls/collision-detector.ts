@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { TriangleBVH } from './triangle-bvh';
 
 /**
  * Information about a collision that was detected.
@@ -10,122 +11,87 @@ export interface CollisionResult {
     distance?: number;
 }
 
+/**
+ * The ground found below a position.
+ */
+export interface GroundHit {
+    height: number; // Y coordinate of the ground
+    normal: THREE.Vector3; // surface normal in world space, used to tell walkable ground from steep slopes
+}
+
+/**
+ * The last obstacle touched while moving, reported by {@link CollisionDetector.checkCollision}.
+ */
+interface LastContact {
+    contact: { point: THREE.Vector3; normal: THREE.Vector3 } | null;
+}
+
+/**
+ * How often overlapping triangles are pushed apart per movement step before giving up.
+ */
+const MAX_RESOLVE_ITERATIONS = 4;
+
 /**
  * Detects collisions between the player and scene objects to prevent walking through walls.
- * Uses raycasting to check if movement would cause collisions and finds ground height.
+ * The player is a sphere, or a capsule while walking, that is moved in small steps and pushed out of
+ * every triangle it overlaps, so it slides along walls at any angle. Each registered model gets a
+ * bounding volume hierarchy that finds the nearby triangles quickly.
  */
 export class CollisionDetector {
-    private scene: THREE.Scene;
-    private raycaster: THREE.Raycaster;
-    private collisionMeshes: THREE.Mesh[] = [];
+    private models: { root: THREE.Object3D; bvh: TriangleBVH | null }[] = [];
     private collisionRadius: number;
-    private meshCacheDirty: boolean = true;
+    private readonly ray = new THREE.Ray();
 
     /**
-     * Creates a new collision detector for a scene.
-     * @param scene The Three.js scene containing objects to check collisions with
+     * Creates a new collision detector. Models are checked once they are added with {@link addObject}.
      * @param collisionRadius How close the player can get to objects before colliding (in world units)
      */
-    constructor(scene: THREE.Scene, collisionRadius: number = 0.5) {
-        this.scene = scene;
-        this.raycaster = new THREE.Raycaster();
+    constructor(collisionRadius: number = 0.5) {
         this.collisionRadius = collisionRadius;
     }
 
     /**
-     * Scans the scene and collects all meshes that should be checked for collisions.
+     * Adds a loaded model the player collides with.
      * Meshes with `skipCollision` in userData are ignored.
+     * @param root The root object of the model, e.g. the scene of a loaded GLTF
      */
-    private collectCollisionMeshes(): void {
-        this.collisionMeshes = [];
-        
-        this.scene.traverse((object) => {
-            if (object instanceof THREE.Mesh) {
-                if (object.userData.skipCollision) {
-                    return;
-                }
-                if (object.geometry) {
-                    this.collisionMeshes.push(object);
-                }
-            }
-        });
-        
-        this.meshCacheDirty = false;
+    public addObject(root: THREE.Object3D): void {
+        this.models.push({ root, bvh: null });
     }
 
     /**
-     * Updates the list of collision meshes if it has been marked as dirty.
+     * Gets the hierarchies of all models, building those that are new or were invalidated.
+     * @return One hierarchy per model
      */
-    private updateMeshCache(): void {
-        if (this.meshCacheDirty) {
-            this.collectCollisionMeshes();
-        }
+    private getHierarchies(): TriangleBVH[] {
+        return this.models.map((model) => {
+            if (!model.bvh) {
+                model.bvh = new TriangleBVH(model.root);
+            }
+            return model.bvh;
+        });
     }
 
     /**
      * Checks if moving from one position to another would cause a collision.
-     * Uses raycasting to detect obstacles along the path and near the destination.
      * @param fromPosition Starting position
      * @param toPosition Desired end position
      * @return Collision information including whether a collision occurred
      */
     public checkCollision(fromPosition: THREE.Vector3, toPosition: THREE.Vector3): CollisionResult {
-        this.updateMeshCache();
+        const deltaMovement = new THREE.Vector3().subVectors(toPosition, fromPosition);
+        const last: LastContact = { contact: null };
+        const allowed = this.moveCapsule(new THREE.Line3(fromPosition.clone(), fromPosition.clone()), deltaMovement, last);
 
-        if (this.collisionMeshes.length === 0) {
+        if (!last.contact || allowed.distanceTo(deltaMovement) < 0.001) {
             return { hasCollision: false };
         }
-
-        const direction = new THREE.Vector3().subVectors(toPosition, fromPosition);
-        const distance = direction.length();
-
-        if (distance < 0.001) {
-            return { hasCollision: false };
-        }
-
-        direction.normalize();
-
-        this.raycaster.set(fromPosition, direction);
-        this.raycaster.far = distance + this.collisionRadius;
-        const intersections = this.raycaster.intersectObjects(this.collisionMeshes, false);
-
-        if (intersections.length > 0) {
-            const closestIntersection = intersections[0];
-            if (closestIntersection.distance <= distance + this.collisionRadius) {
-                return {
-                    hasCollision: true,
-                    hitPoint: closestIntersection.point.clone(),
-                    normal: closestIntersection.face?.normal.clone(),
-                    distance: closestIntersection.distance
-                };
-            }
-        }
-
-        const checkDirections = [
-            new THREE.Vector3(1, 0, 0),
-            new THREE.Vector3(-1, 0, 0),
-            new THREE.Vector3(0, 1, 0),
-            new THREE.Vector3(0, -1, 0),
-            new THREE.Vector3(0, 0, 1),
-            new THREE.Vector3(0, 0, -1)
-        ];
-
-        for (const dir of checkDirections) {
-            this.raycaster.set(toPosition, dir);
-            this.raycaster.far = this.collisionRadius;
-            const nearbyIntersections = this.raycaster.intersectObjects(this.collisionMeshes, false);
-            
-            if (nearbyIntersections.length > 0 && nearbyIntersections[0].distance < this.collisionRadius) {
-                return {
-                    hasCollision: true,
-                    hitPoint: nearbyIntersections[0].point.clone(),
-                    normal: nearbyIntersections[0].face?.normal.clone(),
-                    distance: nearbyIntersections[0].distance
-                };
-            }
-        }
-
-        return { hasCollision: false };
+        return {
+            hasCollision: true,
+            hitPoint: last.contact.point,
+            normal: last.contact.normal,
+            distance: allowed.length()
+        };
     }
 
     /**
@@ -141,33 +107,86 @@ export class CollisionDetector {
     }
 
     /**
-     * Calculates how far the player can move before hitting an obstacle.
-     * If full movement would collide, returns a reduced movement that stops before the collision.
+     * Calculates how far the player can move. Obstacles stop the player or,
+     * when hit at an angle, turn the movement along them.
      * @param currentPosition Current position
      * @param deltaMovement Desired movement vector
-     * @return Actual allowed movement (may be less than requested if collision detected)
+     * @return Actual allowed movement (may be shorter or turned if a collision was detected)
      */
     public getAllowedMovement(currentPosition: THREE.Vector3, deltaMovement: THREE.Vector3): THREE.Vector3 {
-        const proposedPosition = currentPosition.clone().add(deltaMovement);
-        const result = this.checkCollision(currentPosition, proposedPosition);
+        return this.moveCapsule(new THREE.Line3(currentPosition.clone(), currentPosition.clone()), deltaMovement);
+    }
+
+    /**
+     * Calculates how far an upright capsule can move, e.g. the body of a walking player.
+     * @param bottom Center of the lower end of the capsule
+     * @param top Center of the upper end of the capsule
+     * @param deltaMovement Desired movement vector
+     * @return Actual allowed movement (may be shorter or turned if a collision was detected)
+     */
+    public getAllowedCapsuleMovement(bottom: THREE.Vector3, top: THREE.Vector3, deltaMovement: THREE.Vector3): THREE.Vector3 {
+        return this.moveCapsule(new THREE.Line3(bottom.clone(), top.clone()), deltaMovement);
+    }
 
-        if (!result.hasCollision) {
+    /**
+     * Moves a capsule in steps shorter than its radius, so it cannot skip through thin walls,
+     * and pushes it out of the triangles it overlaps after each step.
+     * @param segment Center line of the capsule, moved in place
+     * @param deltaMovement Desired movement vector
+     * @param last Receives the last obstacle touched, if any
+     * @return Movement from the start to where the capsule ended up
+     */
+    private moveCapsule(segment: THREE.Line3, deltaMovement: THREE.Vector3, last?: LastContact): THREE.Vector3 {
+        const hierarchies = this.getHierarchies();
+        if (hierarchies.length === 0) {
             return deltaMovement.clone();
         }
-        if (result.distance !== undefined && result.distance > this.collisionRadius) {
-            const allowedDistance = result.distance - this.collisionRadius;
-            const direction = deltaMovement.clone().normalize();
-            return direction.multiplyScalar(allowedDistance);
+
+        const start = segment.start.clone();
+        const steps = Math.max(1, Math.ceil(deltaMovement.length() / (this.collisionRadius * 0.5)));
+        const step = deltaMovement.clone().divideScalar(steps);
+        const push = new THREE.Vector3();
+
+        for (let i = 0; i < steps; i++) {
+            const before = segment.start.clone();
+            segment.start.add(step);
+            segment.end.add(step);
+
+            for (let iteration = 0; iteration < MAX_RESOLVE_ITERATIONS; iteration++) {
+                const contacts = hierarchies.flatMap((bvh) => bvh.getContacts(segment, this.collisionRadius));
+                if (contacts.length === 0) break;
+
+                // Resolve the deepest overlap first, then look again
+                const contact = contacts.reduce((deepest, candidate) => candidate.distance < deepest.distance ? candidate : deepest);
+                if (contact.distance > 1e-6) {
+                    push.subVectors(contact.pointOnSegment, contact.pointOnTriangle).normalize();
+                } else {
+                    // The center line passes through the triangle, push back to the side it came from
+                    contact.triangle.getNormal(push);
+                    if (push.dot(new THREE.Vector3().subVectors(before, contact.pointOnTriangle)) < 0) {
+                        push.negate();
+                    }
+                }
+                if (last) {
+                    last.contact = { point: contact.pointOnTriangle, normal: push.clone() };
+                }
+                push.multiplyScalar(this.collisionRadius - contact.distance + 1e-4);
+                segment.start.add(push);
+                segment.end.add(push);
+            }
         }
-        return new THREE.Vector3(0, 0, 0);
+
+        return segment.start.clone().sub(start);
     }
 
     /**
-     * Marks the mesh cache as dirty so it will be rebuilt on next use.
-     * Call this when objects are added or removed from the scene.
+     * Rebuilds the hierarchies of all models on next use.
+     * Call this when registered models were moved or changed.
      */
     public invalidateCache(): void {
-        this.meshCacheDirty = true;
+        this.models.forEach((model) => {
+            model.bvh = null;
+        });
     }
 
     /**
@@ -194,20 +213,28 @@ export class CollisionDetector {
      * @return Ground height (Y coordinate) or null if no ground found
      */
     public getGroundHeight(position: THREE.Vector3, maxDistance: number = 10): number | null {
-        this.updateMeshCache();
-        if (this.collisionMeshes.length === 0) {
-            return null;
-        }
-        
-        const downDirection = new THREE.Vector3(0, -1, 0);
-        this.raycaster.set(position, downDirection);
-        this.raycaster.far = maxDistance;
-
-        const intersections = this.raycaster.intersectObjects(this.collisionMeshes, false);
-        if (intersections.length > 0) {
-            return intersections[0].point.y;
+        return this.getGround(position, maxDistance)?.height ?? null;
+    }
+
+    /**
+     * Finds the ground below a position and how steep it is by casting a ray downward.
+     * @param position Position to check the ground at
+     * @param maxDistance Maximum distance to search downward
+     * @return Ground height and surface normal, or null if no ground found
+     */
+    public getGround(position: THREE.Vector3, maxDistance: number = 10): GroundHit | null {
+        this.ray.set(position, new THREE.Vector3(0, -1, 0));
+
+        let nearest: GroundHit | null = null;
+        let nearestDistance = maxDistance;
+        for (const bvh of this.getHierarchies()) {
+            const hit = bvh.raycast(this.ray, nearestDistance);
+            if (hit) {
+                nearestDistance = hit.distance;
+                // Faces seen from behind count as ground facing up
+                nearest = { height: hit.point.y, normal: hit.normal.y < 0 ? hit.normal.negate() : hit.normal };
+            }
         }
-        return null;
+        return nearest;
     }
 }
-
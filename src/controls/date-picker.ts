@@ -0,0 +1,137 @@
+import {
+    dateToCalendarDate,
+    getCalendarInUse,
+    getDaysInMonth,
+    monthNames,
+    type CalendarDate,
+    type CalendarSystem
+} from '../ambient/calendar';
+
+/**
+ * The calendar the date fields are shown in. `auto` uses the calendar in force on the date itself.
+ */
+type CalendarMode = 'auto' | CalendarSystem;
+
+/**
+ * A UI control for choosing the calendar date, including historic years.
+ * Lives in the time picker popup below the time slider.
+ * Dates can be entered in the Julian or Gregorian calendar; by default the calendar switches on 15 October 1582.
+ */
+export class DatePicker {
+    private dayInput: HTMLInputElement;
+    private monthSelect: HTMLSelectElement;
+    private yearInput: HTMLInputElement;
+    private calendarSelect: HTMLSelectElement;
+    private date: Date = new Date();
+    private onDateChangeCallback?: (date: CalendarDate) => void;
+
+    /**
+     * Creates a date picker initialized to today.
+     */
+    constructor() {
+        this.dayInput = document.getElementById('date-picker-day') as HTMLInputElement;
+        this.monthSelect = document.getElementById('date-picker-month') as HTMLSelectElement;
+        this.yearInput = document.getElementById('date-picker-year') as HTMLInputElement;
+        this.calendarSelect = document.getElementById('date-picker-calendar') as HTMLSelectElement;
+
+        if (!this.dayInput || !this.monthSelect || !this.yearInput || !this.calendarSelect) {
+            console.error('Date picker elements not found');
+            return;
+        }
+
+        monthNames.forEach((name, index) => {
+            const option = document.createElement('option');
+            option.value = (index + 1).toString();
+            option.textContent = name;
+            this.monthSelect.appendChild(option);
+        });
+
+        this.setupEventListeners();
+        this.updateFields();
+    }
+
+    /**
+     * Sets up change handlers for the date fields and the preset buttons.
+     */
+    private setupEventListeners(): void {
+        this.dayInput.addEventListener('change', () => this.handleFieldChange());
+        this.monthSelect.addEventListener('change', () => this.handleFieldChange());
+        this.yearInput.addEventListener('change', () => this.handleFieldChange());
+        this.calendarSelect.addEventListener('change', () => this.updateFields());
+
+        document.getElementById('date-picker-midsummer')?.addEventListener('click', () => {
+            this.notifyDateChange({ year: this.date.getFullYear(), month: 6, day: 21, calendar: 'gregorian' });
+        });
+        document.getElementById('date-picker-midwinter')?.addEventListener('click', () => {
+            this.notifyDateChange({ year: this.date.getFullYear(), month: 12, day: 21, calendar: 'gregorian' });
+        });
+        document.getElementById('date-picker-today')?.addEventListener('click', () => {
+            const today = new Date();
+            this.notifyDateChange({
+                year: today.getFullYear(),
+                month: today.getMonth() + 1,
+                day: today.getDate(),
+                calendar: 'gregorian'
+            });
+        });
+    }
+
+    /**
+     * Reads the date fields, corrects out-of-range values and reports the new date.
+     */
+    private handleFieldChange(): void {
+        const year = Math.round(Number(this.yearInput.value));
+        const month = Number(this.monthSelect.value);
+        const mode = this.calendarSelect.value as CalendarMode;
+        if (!isFinite(year)) {
+            this.updateFields();
+            return;
+        }
+
+        const calendar = mode === 'auto' ? getCalendarInUse(year, month, Number(this.dayInput.value)) : mode;
+        const daysInMonth = getDaysInMonth(year, month, calendar);
+        const day = Math.max(1, Math.min(daysInMonth, Math.round(Number(this.dayInput.value)) || 1));
+        this.notifyDateChange({ year, month, day, calendar });
+    }
+
+    /**
+     * Shows the current date in the fields, using the selected calendar.
+     */
+    private updateFields(): void {
+        const mode = this.calendarSelect.value as CalendarMode;
+        const calendarDate = dateToCalendarDate(this.date, mode === 'auto' ? undefined : mode);
+        this.dayInput.value = calendarDate.day.toString();
+        this.monthSelect.value = calendarDate.month.toString();
+        this.yearInput.value = calendarDate.year.toString();
+        this.dayInput.title = calendarDate.calendar === 'julian' ? 'Julian calendar' : 'Gregorian calendar';
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen date.
+     * @param date The chosen calendar date
+     */
+    private notifyDateChange(date: CalendarDate): void {
+        if (this.onDateChangeCallback) {
+            this.onDateChangeCallback(date);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a date.
+     * @param callback Function that receives the chosen calendar date
+     */
+    public onDateChange(callback: (date: CalendarDate) => void): void {
+        this.onDateChangeCallback = callback;
+    }
+
+    /**
+     * Sets the date shown by the picker.
+     * @param date The date to show; only the calendar day is used
+     */
+    public setDate(date: Date): void {
+        this.date = new Date(date);
+        if (this.dayInput) {
+            this.updateFields();
+        }
+    }
+}
@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import type { KeyboardControls, MovementInput } from './keyboard-controls';
+
+/**
+ * Stick and trigger values below this are treated as resting, since worn sticks rarely return exactly to zero.
+ */
+const DEAD_ZONE = 0.15;
+
+/**
+ * How fast the right stick turns the camera at full tilt, in radians per second.
+ */
+const LOOK_SPEED = 2.0;
+
+/**
+ * How long the player keeps being moved after the sticks were let go, in milliseconds, so it glides to a stop.
+ */
+const IDLE_TIMEOUT = 1000;
+
+/**
+ * Button indices of the standard gamepad layout (Xbox names).
+ */
+const GamepadButton = {
+    X: 2,
+    Y: 3,
+    LeftShoulder: 4,
+    RightShoulder: 5,
+    LeftTrigger: 6,
+    RightTrigger: 7
+} as const;
+
+/**
+ * Lets the visitor move through the town with a standard gamepad, e.g. at an exhibition kiosk.
+ * The left stick moves, the right stick looks around, the right and left triggers fly up and down
+ * (jump and run while walking), the shoulder buttons switch to the previous or next tour,
+ * Y shows or hides the interface and X switches between flying and walking.
+ * Movement goes through the keyboard controls, so it uses the same speed and collision handling,
+ * and it works without locking the pointer.
+ */
+export class GamepadControls {
+    private camera: THREE.PerspectiveCamera;
+    private keyboardControls: KeyboardControls;
+    private previousButtons: boolean[] = [];
+    private lastInput: number = -Infinity;
+    private prevTime: number = performance.now();
+    private enabled: boolean = true;
+    private readonly euler = new THREE.Euler(0, 0, 0, 'YXZ');
+    private onActiveCallback?: () => void;
+    private onPreviousTourCallback?: () => void;
+    private onNextTourCallback?: () => void;
+    private onToggleUICallback?: () => void;
+
+    /**
+     * Creates gamepad controls. A gamepad is picked up as soon as the browser reports it,
+     * which most browsers only do after a button has been pressed.
+     * @param camera The camera turned by the right stick
+     * @param keyboardControls The keyboard controls that move the player
+     */
+    constructor(camera: THREE.PerspectiveCamera, keyboardControls: KeyboardControls) {
+        this.camera = camera;
+        this.keyboardControls = keyboardControls;
+    }
+
+    /**
+     * Finds the first connected gamepad.
+     * @return The gamepad, or null if none is connected
+     */
+    private getGamepad(): Gamepad | null {
+        if (!navigator.getGamepads) return null;
+        return navigator.getGamepads().find((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected) ?? null;
+    }
+
+    /**
+     * Ignores small stick values and stretches the rest back to the full range.
+     * @param value The raw stick or trigger value
+     * @return The value with the dead zone removed
+     */
+    private applyDeadZone(value: number): number {
+        if (Math.abs(value) < DEAD_ZONE) return 0;
+        return Math.sign(value) * (Math.abs(value) - DEAD_ZONE) / (1 - DEAD_ZONE);
+    }
+
+    /**
+     * Reads the gamepad and moves and turns the camera. Call this every frame before the keyboard controls update.
+     */
+    public update(): void {
+        const time = performance.now();
+        const delta = (time - this.prevTime) / 1000;
+        this.prevTime = time;
+        if (!this.enabled) return;
+
+        const gamepad = this.getGamepad();
+        if (!gamepad) {
+            this.keyboardControls.setExternalInput('gamepad', null);
+            this.previousButtons = [];
+            return;
+        }
+
+        const axis = (index: number) => this.applyDeadZone(gamepad.axes[index] ?? 0);
+        const trigger = (index: number) => this.applyDeadZone(gamepad.buttons[index]?.value ?? 0);
+        const input: MovementInput = {
+            forward: -axis(1),
+            right: axis(0),
+            up: trigger(GamepadButton.RightTrigger) - trigger(GamepadButton.LeftTrigger)
+        };
+        const lookX = axis(2);
+        const lookY = axis(3);
+
+        if (input.forward !== 0 || input.right !== 0 || input.up !== 0 || lookX !== 0 || lookY !== 0) {
+            this.lastInput = time;
+            this.notifyActive();
+        }
+        this.keyboardControls.setExternalInput('gamepad', time - this.lastInput < IDLE_TIMEOUT ? input : null);
+
+        if (lookX !== 0 || lookY !== 0) {
+            this.euler.setFromQuaternion(this.camera.quaternion);
+            this.euler.y -= lookX * LOOK_SPEED * delta;
+            this.euler.x = THREE.MathUtils.clamp(this.euler.x - lookY * LOOK_SPEED * delta, -Math.PI / 2 + 0.01, Math.PI / 2 - 0.01);
+            this.camera.quaternion.setFromEuler(this.euler);
+        }
+
+        const pressed = gamepad.buttons.map((button) => button.pressed);
+        const justPressed = (index: number) => pressed[index] && !this.previousButtons[index];
+        if (justPressed(GamepadButton.LeftShoulder)) this.notifyPreviousTour();
+        if (justPressed(GamepadButton.RightShoulder)) this.notifyNextTour();
+        if (justPressed(GamepadButton.Y)) this.notifyToggleUI();
+        if (justPressed(GamepadButton.X)) {
+            const mode = this.keyboardControls.getMovementMode();
+            this.keyboardControls.setMovementMode(mode === 'walk' ? 'fly' : 'walk');
+        }
+        this.previousButtons = pressed;
+    }
+
+    /**
+     * Turns the gamepad on or off, e.g. while the orbit camera is used.
+     * @param enabled Whether the gamepad moves the player and reacts to its buttons
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.keyboardControls.setExternalInput('gamepad', null);
+            this.lastInput = -Infinity;
+            this.previousButtons = [];
+        }
+    }
+
+    /**
+     * Calls the registered callback when the sticks or triggers are used.
+     */
+    private notifyActive(): void {
+        if (this.onActiveCallback) {
+            this.onActiveCallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called in every frame in which the sticks or triggers are used,
+     * e.g. to stop a running tour when the visitor takes over.
+     * @param callback Function to call
+     */
+    public onActive(callback: () => void): void {
+        this.onActiveCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when the left shoulder button is pressed.
+     */
+    private notifyPreviousTour(): void {
+        if (this.onPreviousTourCallback) {
+            this.onPreviousTourCallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called when the visitor asks for the previous tour.
+     * @param callback Function to call
+     */
+    public onPreviousTour(callback: () => void): void {
+        this.onPreviousTourCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when the right shoulder button is pressed.
+     */
+    private notifyNextTour(): void {
+        if (this.onNextTourCallback) {
+            this.onNextTourCallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called when the visitor asks for the next tour.
+     * @param callback Function to call
+     */
+    public onNextTour(callback: () => void): void {
+        this.onNextTourCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when the button for the interface is pressed.
+     */
+    private notifyToggleUI(): void {
+        if (this.onToggleUICallback) {
+            this.onToggleUICallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called when the visitor shows or hides the interface.
+     * @param callback Function to call
+     */
+    public onToggleUI(callback: () => void): void {
+        this.onToggleUICallback = callback;
+    }
+}
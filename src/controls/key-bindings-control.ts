@@ -0,0 +1,190 @@
+import { InputBindings, inputActionLabels, inputActions, KEYS_PER_ACTION, reservedKeys, type InputAction } from '../input-bindings';
+
+/**
+ * A dialog listing every keyboard action with its keys. Clicking a key waits for a new key to be pressed;
+ * Backspace or Delete removes it and Escape cancels. Keys that are already used by another action are refused.
+ */
+export class KeyBindingsControl {
+    private popupContainer: HTMLElement;
+    private listContainer: HTMLElement;
+    private messageElement: HTMLElement;
+    private resetButton: HTMLButtonElement;
+    private bindings: InputBindings;
+    private capture: { action: InputAction; slot: number } | null = null;
+    private onCaptureKeyHandler: (event: KeyboardEvent) => void;
+
+    /**
+     * Creates the key bindings dialog.
+     * @param bindings The key bindings that are shown and changed
+     */
+    constructor(bindings: InputBindings) {
+        this.bindings = bindings;
+        this.onCaptureKeyHandler = this.handleCaptureKey.bind(this);
+        this.popupContainer = document.getElementById('keybindings-popup') as HTMLElement;
+        this.listContainer = document.getElementById('keybindings-list') as HTMLElement;
+        this.messageElement = document.getElementById('keybindings-message') as HTMLElement;
+        this.resetButton = document.getElementById('keybindings-reset') as HTMLButtonElement;
+
+        if (!this.popupContainer || !this.listContainer || !this.messageElement || !this.resetButton) {
+            console.error('Key bindings elements not found');
+            return;
+        }
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Sets up the reset button and closing the dialog when clicking outside or pressing Escape.
+     */
+    private setupEventListeners(): void {
+        this.resetButton.addEventListener('click', () => {
+            this.stopCapture();
+            this.bindings.resetToDefaults();
+            this.showMessage('');
+            this.renderList();
+        });
+
+        this.popupContainer.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+        document.addEventListener('click', () => {
+            if (this.isOpen()) {
+                this.close();
+            }
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isOpen()) {
+                this.close();
+            }
+        });
+    }
+
+    /**
+     * Fills the dialog with one row per action. Rows of actions that share a key with another action are marked.
+     */
+    private renderList(): void {
+        const conflicts = this.bindings.getConflictingActions();
+        this.listContainer.innerHTML = '';
+
+        inputActions.forEach((action) => {
+            const row = document.createElement('div');
+            row.className = 'settings-row keybinding-row';
+            row.classList.toggle('conflict', conflicts.includes(action));
+
+            const label = document.createElement('span');
+            label.textContent = inputActionLabels[action];
+            row.appendChild(label);
+
+            const keys = document.createElement('div');
+            keys.className = 'keybinding-keys';
+            const codes = this.bindings.getKeys(action);
+            for (let slot = 0; slot < KEYS_PER_ACTION; slot++) {
+                const button = document.createElement('button');
+                button.className = 'keybinding-btn';
+                const waiting = this.capture?.action === action && this.capture.slot === slot;
+                button.classList.toggle('waiting', waiting);
+                button.textContent = waiting ? 'Press a key' : (codes[slot] ? InputBindings.formatKey(codes[slot]) : '–');
+                button.addEventListener('click', () => this.startCapture(action, slot));
+                keys.appendChild(button);
+            }
+            row.appendChild(keys);
+            this.listContainer.appendChild(row);
+        });
+
+        if (conflicts.length > 0 && !this.messageElement.textContent) {
+            this.showMessage('Marked actions share a key, only the first of them reacts to it.');
+        }
+    }
+
+    /**
+     * Waits for the next key press to bind it to an action.
+     * @param action The action to bind the key to
+     * @param slot Which of the action's keys to replace
+     */
+    private startCapture(action: InputAction, slot: number): void {
+        this.stopCapture();
+        this.capture = { action, slot };
+        // Listening on the window before anything else keeps the pressed key from triggering its current action
+        window.addEventListener('keydown', this.onCaptureKeyHandler, true);
+        this.showMessage('');
+        this.renderList();
+    }
+
+    /**
+     * Stops waiting for a key press.
+     */
+    private stopCapture(): void {
+        if (!this.capture) return;
+        this.capture = null;
+        window.removeEventListener('keydown', this.onCaptureKeyHandler, true);
+    }
+
+    /**
+     * Binds the pressed key to the action that is waiting for one, unless the key is taken or reserved.
+     * @param event The keyboard event of the pressed key
+     */
+    private handleCaptureKey(event: KeyboardEvent): void {
+        if (!this.capture) return;
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        const { action, slot } = this.capture;
+
+        if (event.code === 'Escape') {
+            this.stopCapture();
+        } else if (event.code === 'Backspace' || event.code === 'Delete') {
+            this.bindings.setKey(action, slot, null);
+            this.stopCapture();
+        } else if (reservedKeys.includes(event.code)) {
+            this.showMessage(`${InputBindings.formatKey(event.code)} cannot be used.`);
+            return;
+        } else {
+            const conflict = this.bindings.setKey(action, slot, event.code);
+            if (conflict) {
+                this.showMessage(`${InputBindings.formatKey(event.code)} is already used for "${inputActionLabels[conflict]}".`);
+                return;
+            }
+            this.stopCapture();
+        }
+        this.renderList();
+    }
+
+    /**
+     * Shows a hint below the list, or hides it.
+     * @param message The hint, or an empty string to hide it
+     */
+    private showMessage(message: string): void {
+        this.messageElement.textContent = message;
+        this.messageElement.style.display = message ? 'block' : 'none';
+    }
+
+    /**
+     * Makes the dialog visible with smooth animation.
+     */
+    public show(): void {
+        this.showMessage('');
+        this.renderList();
+        this.popupContainer.style.display = 'block';
+        requestAnimationFrame(() => {
+            this.popupContainer.classList.add('show');
+        });
+    }
+
+    /**
+     * Hides the dialog with smooth animation and cancels waiting for a key.
+     */
+    public close(): void {
+        this.stopCapture();
+        this.popupContainer.classList.remove('show');
+        setTimeout(() => {
+            this.popupContainer.style.display = 'none';
+        }, 300);
+    }
+
+    /**
+     * Checks if the dialog is currently visible.
+     * @return True if visible, false if hidden
+     */
+    public isOpen(): boolean {
+        return this.popupContainer.classList.contains('show');
+    }
+}
@@ -1,10 +1,59 @@
 import * as THREE from 'three';
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
 import { CollisionDetector } from './collision-detector';
+import { getReferenceDistance } from '../util';
+import { InputBindings, type InputAction } from '../input-bindings';
+
+/**
+ * How the player moves: flying freely, or walking on the ground with gravity.
+ */
+export type MovementMode = 'fly' | 'walk';
+
+/**
+ * All movement modes in the order they are offered in the settings.
+ */
+export const movementModes: MovementMode[] = ['fly', 'walk'];
+
+/**
+ * Movement wished for by another input device such as a gamepad or the touch screen, each axis from -1 to 1.
+ */
+export interface MovementInput {
+    forward: number; // negative moves backward
+    right: number; // negative moves left
+    up: number; // flies up or jumps, negative flies down or runs
+}
+
+/**
+ * Gravity pulling the walking player down, in world units per second squared.
+ */
+const GRAVITY = 9.81;
+
+/**
+ * Walking speed in world units per second; holding Shift runs faster by RUN_FACTOR.
+ */
+const WALK_SPEED = 4.0;
+const RUN_FACTOR = 2.5;
+
+/**
+ * Upward speed at the start of a jump, in world units per second (about one unit high).
+ */
+const JUMP_SPEED = 4.5;
+
+/**
+ * Highest ledge the walking player steps onto without jumping, such as a stair step or a curb.
+ */
+const STEP_HEIGHT = 0.45;
+
+/**
+ * Steepest ground the walking player can walk up, in radians. The player slides down steeper slopes.
+ */
+const MAX_SLOPE = THREE.MathUtils.degToRad(40);
 
 /**
  * Handles keyboard input for moving the camera around the scene.
- * Provides WASD/arrow keys for movement, space/shift for up/down, and includes collision detection.
+ * By default WASD/arrow keys move, space/shift fly up/down, and collision detection keeps the player out of walls.
+ * In walk mode the player is a capsule standing on the ground: space jumps, shift runs and G switches back to flying.
+ * The keys come from the input bindings and can be changed by the user.
  */
 export class KeyboardControls {
     private moveForward = false;
@@ -14,29 +63,43 @@ export class KeyboardControls {
     private moveUp = false;
     private moveDown = false;
 
-    private playerHeight = 2.0;
+    private eyeHeight = 2.0;
+    private mode: MovementMode = 'fly';
+    private onGround = false;
 
     private velocity = new THREE.Vector3();
     private direction = new THREE.Vector3();
+    private walkVelocity = new THREE.Vector3(); // world space, y is the vertical speed from gravity and jumps
     
     private prevTime = performance.now();
 
     private controls: PointerLockControls;
+    private bindings: InputBindings;
     private onKeyDownHandler: (event: KeyboardEvent) => void;
     private onKeyUpHandler: (event: KeyboardEvent) => void;
     private collisionDetector: CollisionDetector | null = null;
+    private externalInputs = new Map<string, MovementInput>();
 
     /**
      * Creates keyboard controls for camera movement.
      * @param controls The pointer lock controls that manage the camera
+     * @param bindings The key bindings that tell which keys move the player
      */
-    constructor(controls: PointerLockControls) {
+    constructor(controls: PointerLockControls, bindings: InputBindings) {
         this.controls = controls;
+        this.bindings = bindings;
         this.onKeyDownHandler = this.handleKeyDown.bind(this);
         this.onKeyUpHandler = this.handleKeyUp.bind(this);
         
         document.addEventListener('keydown', this.onKeyDownHandler);
         document.addEventListener('keyup', this.onKeyUpHandler);
+
+        bindings.register('releaseMouse', () => {
+            if (!this.controls.isLocked) return false;
+            this.controls.unlock();
+        });
+        bindings.register('toggleUI', () => this.toggleUI());
+        bindings.register('toggleMovementMode', () => this.setMovementMode(this.mode === 'walk' ? 'fly' : 'walk'));
     }
 
     /**
@@ -44,39 +107,8 @@ export class KeyboardControls {
      * @param event The keyboard event with the pressed key
      */
     private handleKeyDown(event: KeyboardEvent): void {
-        switch (event.code) {
-            case 'ArrowUp':
-            case 'KeyW':
-                this.moveForward = true;
-                break;
-            case 'ArrowLeft':
-            case 'KeyA':
-                this.moveLeft = true;
-                break;
-            case 'ArrowDown':
-            case 'KeyS':
-                this.moveBackward = true;
-                break;
-            case 'ArrowRight':
-            case 'KeyD':
-                this.moveRight = true;
-                break;
-            case 'Space':
-                this.moveUp = true;
-                break;
-            case 'ShiftLeft':
-            case 'ShiftRight':
-                this.moveDown = true;
-                break;
-            case 'Enter':
-                if (this.controls.isLocked) {
-                    this.controls.unlock();
-                }
-                break;
-            case 'KeyI':
-                this.toggleUI()
-                break;
-        }
+        if (InputBindings.isTyping(event)) return;
+        this.setMoving(this.bindings.getAction(event.code), true);
     }
 
     /**
@@ -84,39 +116,41 @@ export class KeyboardControls {
      * @param event The keyboard event with the released key
      */
     private handleKeyUp(event: KeyboardEvent): void {
-        switch (event.code) {
-            case 'ArrowUp':
-            case 'KeyW':
-                this.moveForward = false;
-                break;
-            case 'ArrowLeft':
-            case 'KeyA':
-                this.moveLeft = false;
+        this.setMoving(this.bindings.getAction(event.code), false);
+    }
+
+    /**
+     * Starts or stops the movement belonging to an action.
+     * @param action The action of the pressed or released key, or null if the key is not bound
+     * @param moving Whether the key is held down
+     */
+    private setMoving(action: InputAction | null, moving: boolean): void {
+        switch (action) {
+            case 'moveForward':
+                this.moveForward = moving;
                 break;
-            case 'ArrowDown':
-            case 'KeyS':
-                this.moveBackward = false;
+            case 'moveBackward':
+                this.moveBackward = moving;
                 break;
-            case 'ArrowRight':
-            case 'KeyD':
-                this.moveRight = false;
+            case 'moveLeft':
+                this.moveLeft = moving;
                 break;
-            case 'Space':
-                this.moveUp = false;
+            case 'moveRight':
+                this.moveRight = moving;
                 break;
-            case 'ShiftLeft':
-            case 'ShiftRight':
-                this.moveDown = false;
+            case 'flyUp':
+                this.moveUp = moving;
                 break;
-            case 'KeyT':
+            case 'flyDown':
+                this.moveDown = moving;
                 break;
         }
     }
 
     /**
-     * Shows or hides the UI elements when the I key is pressed.
+     * Shows or hides the UI elements (I key by default).
      */
-    private toggleUI(): void {
+    public toggleUI(): void {
         const statsPanel = document.getElementById('stats-panel');
         const controls = document.getElementsByClassName('controls');
 
@@ -126,30 +160,68 @@ export class KeyboardControls {
         }
     }
 
+    /**
+     * Combines the held keys with the movement from other input devices.
+     * @return The wished movement, each axis from -1 to 1
+     */
+    private getMovementInput(): MovementInput {
+        const input: MovementInput = {
+            forward: Number(this.moveForward) - Number(this.moveBackward),
+            right: Number(this.moveRight) - Number(this.moveLeft),
+            up: Number(this.moveUp) - Number(this.moveDown)
+        };
+        this.externalInputs.forEach((external) => {
+            input.forward += external.forward;
+            input.right += external.right;
+            input.up += external.up;
+        });
+        return {
+            forward: THREE.MathUtils.clamp(input.forward, -1, 1),
+            right: THREE.MathUtils.clamp(input.right, -1, 1),
+            up: THREE.MathUtils.clamp(input.up, -1, 1)
+        };
+    }
+
+    /**
+     * Sets the movement direction from the wished movement. Diagonal keys are not faster than straight ones,
+     * while a half-tilted stick moves at half speed.
+     * @param input The wished movement
+     */
+    private setDirection(input: MovementInput): void {
+        this.direction.set(input.right, 0, input.forward);
+        if (this.direction.length() > 1) {
+            this.direction.normalize();
+        }
+    }
+
     /**
      * Updates camera position each frame based on keyboard input.
      * Applies physics-like movement with deceleration and handles collisions if a detector is set.
+     * Runs while the pointer is locked or while another input device provides movement.
      * Movement is relative to camera direction for natural first-person controls.
      */
     public update(): void {
         const time = performance.now();
 
-        if (this.controls.isLocked === true) {
+        // Other input devices move the player without the pointer being locked
+        const active = this.controls.isLocked === true || this.externalInputs.size > 0;
+        const input = this.getMovementInput();
+
+        if (active && this.mode === 'walk' && this.collisionDetector) {
+            this.updateWalking((time - this.prevTime) / 1000, this.collisionDetector, input);
+        } else if (active) {
             const delta = (time - this.prevTime) / 1000;
 
             this.velocity.x -= this.velocity.x * 10.0 * delta;
             this.velocity.z -= this.velocity.z * 10.0 * delta;
             this.velocity.y -= this.velocity.y * 10.0 * delta; 
 
-            this.direction.z = Number(this.moveForward) - Number(this.moveBackward);
-            this.direction.x = Number(this.moveRight) - Number(this.moveLeft);
-            this.direction.normalize();
+            this.setDirection(input);
 
-            if (this.moveForward || this.moveBackward) this.velocity.z -= this.direction.z * 100.0 * 4 * delta;
-            if (this.moveLeft || this.moveRight) this.velocity.x -= this.direction.x * 100.0 * 4 * delta;
+            if (input.forward !== 0) this.velocity.z -= this.direction.z * 100.0 * 4 * delta;
+            if (input.right !== 0) this.velocity.x -= this.direction.x * 100.0 * 4 * delta;
 
-            if (this.moveUp) this.velocity.y += 100.0 * 4 * delta; // Fly up
-            if (this.moveDown) this.velocity.y -= 100.0 * 4 * delta; // Fly down
+            this.velocity.y += input.up * 100.0 * 4 * delta; // Fly up or down
 
             if (this.collisionDetector) {
                 const currentPosition = this.controls.object.position.clone();
@@ -202,8 +274,8 @@ export class KeyboardControls {
 
                 const groundHeight = this.collisionDetector.getGroundHeight(finalPosition);
                 if (groundHeight !== null) {
-                    const minHeight = groundHeight + this.playerHeight;
-                    if (!(this.moveUp && this.controls.object.position.y > minHeight))  {
+                    const minHeight = groundHeight + this.eyeHeight;
+                    if (!(input.up > 0 && this.controls.object.position.y > minHeight))  {
                         this.controls.object.position.y = minHeight;
                     }
                 }
@@ -222,6 +294,170 @@ export class KeyboardControls {
         this.prevTime = time;
     }
 
+    /**
+     * Moves the walking player for one frame. The player is a capsule from above the step height up to the eyes:
+     * walls stop the capsule, ledges up to the step height below it are climbed,
+     * slopes steeper than the slope limit are not, and gravity pulls it down until the feet touch the ground.
+     * @param delta Time since the last frame in seconds
+     * @param detector The collision detector used for walls and ground
+     * @param input The wished movement from the keys and other input devices
+     */
+    private updateWalking(delta: number, detector: CollisionDetector, input: MovementInput): void {
+        // Long frames would let the player fall through thin floors
+        delta = Math.min(delta, 0.05);
+        const position = this.controls.object.position;
+        // The body capsule starts above the step height, so stair steps pass below it and are climbed by the ground check
+        const kneeHeight = STEP_HEIGHT + detector.getCollisionRadius() + 0.05;
+        const minGroundNormalY = Math.cos(MAX_SLOPE);
+        let feet = position.y - this.eyeHeight;
+
+        // The camera's right axis stays level with rotation order YXZ, so forward is found from it even when looking straight down
+        const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.controls.object.quaternion);
+        right.y = 0;
+        right.normalize();
+        const forward = new THREE.Vector3(right.z, 0, -right.x);
+
+        this.setDirection(input);
+        const speed = input.up < 0 ? WALK_SPEED * RUN_FACTOR : WALK_SPEED;
+        const wanted = new THREE.Vector3()
+            .addScaledVector(forward, this.direction.z * speed)
+            .addScaledVector(right, this.direction.x * speed);
+
+        // Speed follows the keys quickly on the ground and only a little in the air
+        const blend = 1 - Math.exp(-(this.onGround ? 12 : 2) * delta);
+        this.walkVelocity.x += (wanted.x - this.walkVelocity.x) * blend;
+        this.walkVelocity.z += (wanted.z - this.walkVelocity.z) * blend;
+
+        const step = new THREE.Vector3(this.walkVelocity.x * delta, 0, this.walkVelocity.z * delta);
+        if (step.lengthSq() > 1e-8) {
+            const bottom = new THREE.Vector3(position.x, feet + kneeHeight, position.z);
+            const top = new THREE.Vector3(position.x, Math.max(position.y, bottom.y), position.z);
+            const allowed = detector.getAllowedCapsuleMovement(bottom, top, step);
+            allowed.y = 0;
+
+            // Below the capsule only ledges up to the step height and gentle slopes can be walked onto
+            const target = new THREE.Vector3(position.x + allowed.x, feet + kneeHeight, position.z + allowed.z);
+            const ground = detector.getGround(target, kneeHeight);
+            if (ground && ground.height > feet + 0.01
+                && (ground.height - feet > STEP_HEIGHT || ground.normal.y < minGroundNormalY)) {
+                allowed.set(0, 0, 0);
+            }
+
+            position.x += allowed.x;
+            position.z += allowed.z;
+            if (allowed.length() < step.length() * 0.9) {
+                this.walkVelocity.x *= 0.5;
+                this.walkVelocity.z *= 0.5;
+            }
+        }
+
+        if (this.onGround && input.up > 0.5) {
+            this.walkVelocity.y = JUMP_SPEED;
+            this.onGround = false;
+        }
+        this.walkVelocity.y -= GRAVITY * delta;
+        let rise = this.walkVelocity.y * delta;
+        if (rise > 0) {
+            const bottom = new THREE.Vector3(position.x, feet + kneeHeight, position.z);
+            const top = new THREE.Vector3(position.x, Math.max(position.y, bottom.y), position.z);
+            const allowedRise = detector.getAllowedCapsuleMovement(bottom, top, new THREE.Vector3(0, rise, 0)).y;
+            if (allowedRise < rise * 0.9) {
+                this.walkVelocity.y = 0; // bumped the head
+            }
+            rise = allowedRise;
+        }
+
+        // Search from knee height so the feet find stair steps they have just walked onto
+        const wasOnGround = this.onGround;
+        const searchFrom = new THREE.Vector3(position.x, feet + kneeHeight, position.z);
+        const snapDistance = wasOnGround ? STEP_HEIGHT : 0;
+        const ground = detector.getGround(searchFrom, kneeHeight + Math.max(-rise, 0) + snapDistance + 0.01);
+        const newFeet = feet + rise;
+
+        if (ground && this.walkVelocity.y <= 0 && newFeet <= ground.height + snapDistance) {
+            feet = ground.height;
+            this.walkVelocity.y = 0;
+            this.onGround = ground.normal.y >= minGroundNormalY;
+            if (!this.onGround) {
+                // Too steep to stand on, slide down the slope
+                this.walkVelocity.x += ground.normal.x * GRAVITY * delta;
+                this.walkVelocity.z += ground.normal.z * GRAVITY * delta;
+            }
+        } else if (!ground && this.walkVelocity.y <= 0 && detector.getGroundHeight(searchFrom, getReferenceDistance()) === null) {
+            // Nothing below at all, e.g. outside the model, so stay at this height instead of falling forever
+            this.walkVelocity.y = 0;
+            this.onGround = true;
+        } else {
+            feet = newFeet;
+            this.onGround = false;
+        }
+
+        position.y = feet + this.eyeHeight;
+    }
+
+    /**
+     * Switches between flying and walking. When starting to walk, the player is put onto the ground below.
+     * @param mode The movement mode
+     */
+    public setMovementMode(mode: MovementMode): void {
+        if (mode === this.mode) return;
+        this.mode = mode;
+        this.velocity.set(0, 0, 0);
+        this.walkVelocity.set(0, 0, 0);
+        this.onGround = false;
+
+        if (mode === 'walk' && this.collisionDetector) {
+            const position = this.controls.object.position;
+            const groundHeight = this.collisionDetector.getGroundHeight(position, getReferenceDistance());
+            if (groundHeight !== null) {
+                position.y = groundHeight + this.eyeHeight;
+                this.onGround = true;
+            }
+        }
+    }
+
+    /**
+     * Gets the current movement mode.
+     * @return 'fly' or 'walk'
+     */
+    public getMovementMode(): MovementMode {
+        return this.mode;
+    }
+
+    /**
+     * Changes how high the eyes are above the feet, which is also how high the camera stays above the ground.
+     * @param height Eye height in world units
+     */
+    public setEyeHeight(height: number): void {
+        const clamped = THREE.MathUtils.clamp(height, 0.5, 10);
+        if (this.mode === 'walk') {
+            this.controls.object.position.y += clamped - this.eyeHeight;
+        }
+        this.eyeHeight = clamped;
+    }
+
+    /**
+     * Gets how high the eyes are above the feet.
+     * @return Eye height in world units
+     */
+    public getEyeHeight(): number {
+        return this.eyeHeight;
+    }
+
+    /**
+     * Sets the movement wished for by another input device, which moves the player even without pointer lock.
+     * Several devices can move the player at the same time, their movements are added up.
+     * @param source Name of the device, e.g. 'gamepad'
+     * @param input The movement, or null while the device is not in use
+     */
+    public setExternalInput(source: string, input: MovementInput | null): void {
+        if (input) {
+            this.externalInputs.set(source, input);
+        } else {
+            this.externalInputs.delete(source);
+        }
+    }
+
     /**
      * Connects a collision detector to prevent walking through walls.
      * @param detector The collision detector to use, or null to disable collision detection
@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import { loadHistoricMap, type Georeference, type HistoricMap } from '../georeference';
+import type { Tour } from '../tours/tour';
+
+/**
+ * Number of points each spline tour path is drawn with.
+ */
+const SPLINE_SAMPLES = 64;
+
+/**
+ * A small map in the corner of the screen showing the historic engraving of the town.
+ * Marks where the camera is and where it looks, draws the paths of all tours,
+ * and moves the camera to any spot that is clicked on the map.
+ * Stays hidden until a map with enough control points to place it in the scene has been loaded.
+ */
+export class Minimap {
+    private container: HTMLElement;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D | null = null;
+    private camera: THREE.PerspectiveCamera;
+    private map: HistoricMap | null = null;
+    private georeference: Georeference | null = null;
+    private image: HTMLImageElement | null = null;
+    private tourPaths: THREE.Vector2[][] = [];
+    private lastPose: string = '';
+    private readonly viewDirection = new THREE.Vector3();
+    private onTeleportCallback?: (x: number, z: number) => void;
+
+    /**
+     * Creates the minimap for a camera. The map itself appears once {@link load} has finished.
+     * @param camera The camera whose position and heading are marked
+     */
+    constructor(camera: THREE.PerspectiveCamera) {
+        this.camera = camera;
+        this.container = document.getElementById('minimap') as HTMLElement;
+        this.canvas = document.getElementById('minimap-canvas') as HTMLCanvasElement;
+
+        if (!this.container || !this.canvas) {
+            console.error('Minimap elements not found');
+            return;
+        }
+
+        this.container.style.display = 'none';
+        this.context = this.canvas.getContext('2d');
+        this.setupEventListeners();
+    }
+
+    /**
+     * Sets up teleporting on click and stops clicks from reaching the scene behind the map.
+     */
+    private setupEventListeners(): void {
+        this.container.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+        this.canvas.addEventListener('click', (e) => {
+            if (!this.map || !this.georeference) return;
+            const pixelsPerCssPixel = this.map.width / this.canvas.clientWidth;
+            const target = this.georeference.imageToScene(e.offsetX * pixelsPerCssPixel, e.offsetY * pixelsPerCssPixel);
+            this.notifyTeleport(target.x, target.y);
+        });
+    }
+
+    /**
+     * Loads the map image and its control points, and shows the map if it can be placed in the scene.
+     * @param url The URL of the map JSON file
+     * @return Promise that resolves once the map is shown, or known to have too few control points
+     */
+    public async load(url: string = '/maps/biberach-1600.json'): Promise<void> {
+        try {
+            const loaded = await loadHistoricMap(url);
+            if (!loaded) {
+                console.info('Minimap hidden: the map needs at least 3 control points');
+                return;
+            }
+            const { map, georeference } = loaded;
+            const image = new Image();
+            image.src = map.image;
+            await image.decode();
+
+            this.canvas.style.aspectRatio = `${map.width} / ${map.height}`;
+            this.map = map;
+            this.georeference = georeference;
+            this.image = image;
+            this.setVisible(true);
+        } catch (error) {
+            console.error('Failed to load minimap:', error);
+        }
+    }
+
+    /**
+     * Gets the loaded map and its georeference.
+     * @return The map and georeference, or null while the map is not loaded
+     */
+    public getMap(): { map: HistoricMap; georeference: Georeference; image: HTMLImageElement } | null {
+        if (!this.map || !this.georeference || !this.image) return null;
+        return { map: this.map, georeference: this.georeference, image: this.image };
+    }
+
+    /**
+     * Sets the tours whose paths are drawn on the map.
+     * Spline tours are drawn along their curve, linear tours as straight lines between the steps.
+     * @param tours The tours to draw
+     */
+    public setTours(tours: Tour[]): void {
+        this.tourPaths = tours.map((tour) => {
+            const positions = tour.parameters
+                .map((parameter) => parameter.position)
+                .filter((position): position is THREE.Vector3 => position !== undefined);
+            if (tour.path === 'spline' && positions.length > 1) {
+                return new THREE.CatmullRomCurve3(positions).getPoints(SPLINE_SAMPLES)
+                    .map((point) => new THREE.Vector2(point.x, point.z));
+            }
+            return positions.map((position) => new THREE.Vector2(position.x, position.z));
+        });
+        this.lastPose = '';
+    }
+
+    /**
+     * Redraws the map if the camera moved or turned. Call this every frame.
+     */
+    public update(): void {
+        if (!this.context || !this.map || !this.georeference || !this.image || !this.isVisible()) return;
+
+        this.camera.getWorldDirection(this.viewDirection);
+        const pose = `${this.camera.position.x.toFixed(1)},${this.camera.position.z.toFixed(1)},`
+            + `${this.viewDirection.x.toFixed(2)},${this.viewDirection.z.toFixed(2)},${this.canvas.clientWidth}`;
+        if (pose === this.lastPose) return;
+        this.lastPose = pose;
+
+        this.draw(this.context, this.map, this.georeference, this.image);
+    }
+
+    /**
+     * Draws the map, the tour paths and the camera marker.
+     * @param context The 2D context of the minimap canvas
+     * @param map The loaded map
+     * @param georeference The georeference of the map
+     * @param image The map image
+     */
+    private draw(context: CanvasRenderingContext2D, map: HistoricMap, georeference: Georeference, image: HTMLImageElement): void {
+        const pixelRatio = window.devicePixelRatio;
+        const width = Math.round(this.canvas.clientWidth * pixelRatio);
+        const height = Math.round(this.canvas.clientHeight * pixelRatio);
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+        }
+
+        const scale = width / map.width;
+        const toCanvas = (x: number, z: number) => georeference.sceneToImage(x, z).multiplyScalar(scale);
+
+        context.clearRect(0, 0, width, height);
+        context.drawImage(image, 0, 0, width, height);
+
+        context.lineWidth = 2 * pixelRatio;
+        context.strokeStyle = 'rgba(196, 98, 16, 0.85)';
+        context.setLineDash([4 * pixelRatio, 3 * pixelRatio]);
+        this.tourPaths.forEach((path) => {
+            if (path.length < 2) return;
+            context.beginPath();
+            path.forEach((point, index) => {
+                const position = toCanvas(point.x, point.y);
+                if (index === 0) {
+                    context.moveTo(position.x, position.y);
+                } else {
+                    context.lineTo(position.x, position.y);
+                }
+            });
+            context.stroke();
+        });
+        context.setLineDash([]);
+
+        const position = toCanvas(this.camera.position.x, this.camera.position.z);
+        const heading = georeference.directionToImage(this.viewDirection.x, this.viewDirection.z);
+        const size = 7 * pixelRatio;
+        const side = new THREE.Vector2(-heading.y, heading.x);
+
+        context.fillStyle = '#d62d20';
+        context.strokeStyle = '#ffffff';
+        context.lineWidth = 1.5 * pixelRatio;
+        context.beginPath();
+        context.moveTo(position.x + heading.x * size * 1.6, position.y + heading.y * size * 1.6);
+        context.lineTo(position.x - heading.x * size + side.x * size, position.y - heading.y * size + side.y * size);
+        context.lineTo(position.x - heading.x * size * 0.4, position.y - heading.y * size * 0.4);
+        context.lineTo(position.x - heading.x * size - side.x * size, position.y - heading.y * size - side.y * size);
+        context.closePath();
+        context.fill();
+        context.stroke();
+    }
+
+    /**
+     * Shows or hides the minimap. It cannot be shown before a map has been loaded.
+     * @param visible Whether the minimap is shown
+     */
+    public setVisible(visible: boolean): void {
+        if (!this.container || (visible && !this.map)) return;
+        this.container.style.display = visible ? 'block' : 'none';
+        this.lastPose = '';
+    }
+
+    /**
+     * Checks if the minimap is currently shown.
+     * @return True if visible, false if hidden
+     */
+    public isVisible(): boolean {
+        return this.container?.style.display !== 'none';
+    }
+
+    /**
+     * Shows the minimap if it is hidden and hides it otherwise.
+     */
+    public toggle(): void {
+        this.setVisible(!this.isVisible());
+    }
+
+    /**
+     * Calls the registered callback with the scene position that was clicked.
+     * @param x Scene x coordinate (west)
+     * @param z Scene z coordinate (south)
+     */
+    private notifyTeleport(x: number, z: number): void {
+        if (this.onTeleportCallback) {
+            this.onTeleportCallback(x, z);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user clicks a spot on the map.
+     * @param callback Function that receives the scene x and z coordinates of the spot
+     */
+    public onTeleport(callback: (x: number, z: number) => void): void {
+        this.onTeleportCallback = callback;
+    }
+}
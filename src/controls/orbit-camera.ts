@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+/**
+ * How long the camera takes to swing to or away from the inspected point, in milliseconds.
+ */
+const TRANSITION_DURATION = 1200;
+
+/**
+ * Closest and farthest the camera gets to the inspected point, in world units.
+ */
+const MIN_DISTANCE = 10;
+const MAX_DISTANCE = 1500;
+
+/**
+ * Range of distances the camera swings to when an inspection starts, so a far building
+ * is brought close and one right in front of the camera is stepped back from.
+ */
+const START_DISTANCE_MIN = 40;
+const START_DISTANCE_MAX = 250;
+
+/**
+ * A camera movement from one pose to another, played over {@link TRANSITION_DURATION}.
+ */
+interface Transition {
+    fromPosition: THREE.Vector3;
+    fromQuaternion: THREE.Quaternion;
+    toPosition: THREE.Vector3;
+    toQuaternion: THREE.Quaternion;
+    startTime: number;
+    onArrive?: () => void;
+}
+
+/**
+ * A camera pose, used to return to where the visitor was standing before the inspection.
+ */
+export interface CameraPose {
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+}
+
+/**
+ * Inspects a single point, e.g. a building, by rotating around it with the left mouse button or one finger,
+ * zooming with the wheel or a pinch and panning with the right mouse button or two fingers.
+ * Wraps the orbit controls of Three.js and moves the camera smoothly when an inspection starts or ends.
+ */
+export class OrbitCamera {
+    private camera: THREE.PerspectiveCamera;
+    private controls: OrbitControls;
+    private active: boolean = false;
+    private transition: Transition | null = null;
+
+    /**
+     * Creates the orbit camera. It stays inactive until {@link start} is called.
+     * @param camera The camera that is moved around the inspected point
+     * @param domElement The element receiving the mouse and touch input, usually the canvas
+     */
+    constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement) {
+        this.camera = camera;
+        this.controls = new OrbitControls(camera, domElement);
+        this.controls.enabled = false;
+        this.controls.enableDamping = true;
+        this.controls.minDistance = MIN_DISTANCE;
+        this.controls.maxDistance = MAX_DISTANCE;
+        // Looking from below the ground makes no sense in a town
+        this.controls.maxPolarAngle = Math.PI / 2 - 0.05;
+    }
+
+    /**
+     * Starts inspecting a point, or moves the inspection to another point.
+     * @param target The point to rotate around
+     * @param smooth True to swing the camera towards the point, false to only turn it there, e.g. when restoring a shared view
+     */
+    public start(target: THREE.Vector3, smooth: boolean): void {
+        this.active = true;
+        this.controls.target.copy(target);
+
+        if (!smooth) {
+            this.transition = null;
+            this.camera.lookAt(target);
+            this.controls.enabled = true;
+            this.controls.update();
+            return;
+        }
+
+        const offset = new THREE.Vector3().subVectors(this.camera.position, target);
+        if (offset.lengthSq() < 1e-6) {
+            offset.set(0, 0.5, 1);
+        }
+        offset.setLength(THREE.MathUtils.clamp(offset.length(), START_DISTANCE_MIN, START_DISTANCE_MAX));
+        const position = target.clone().add(offset);
+        const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+            new THREE.Matrix4().lookAt(position, target, this.camera.up)
+        );
+        this.moveTo({ position, quaternion }, () => {
+            this.controls.enabled = true;
+            this.controls.update();
+        });
+    }
+
+    /**
+     * Ends the inspection.
+     * @param returnTo The pose to swing the camera back to, or null to leave the camera where it is
+     */
+    public stop(returnTo: CameraPose | null): void {
+        this.active = false;
+        this.controls.enabled = false;
+        this.transition = null;
+        if (returnTo) {
+            this.moveTo(returnTo);
+        }
+    }
+
+    /**
+     * Stops a running transition and leaves the camera where it is, e.g. when a tour takes over the camera.
+     * The orbit controls stay off until the next {@link start}.
+     */
+    public cancelTransition(): void {
+        this.transition = null;
+    }
+
+    /**
+     * Starts moving the camera smoothly to a pose. The orbit controls ignore input until it arrives.
+     * @param pose The pose to move to
+     * @param onArrive Function to call when the camera has arrived
+     */
+    private moveTo(pose: CameraPose, onArrive?: () => void): void {
+        this.controls.enabled = false;
+        this.transition = {
+            fromPosition: this.camera.position.clone(),
+            fromQuaternion: this.camera.quaternion.clone(),
+            toPosition: pose.position.clone(),
+            toQuaternion: pose.quaternion.clone(),
+            startTime: performance.now(),
+            onArrive
+        };
+    }
+
+    /**
+     * Plays the running transition or applies the orbit controls. Call this every frame.
+     */
+    public update(): void {
+        if (this.transition) {
+            const transition = this.transition;
+            const progress = Math.min(1, (performance.now() - transition.startTime) / TRANSITION_DURATION);
+            const eased = THREE.MathUtils.smoothstep(progress, 0, 1);
+            this.camera.position.lerpVectors(transition.fromPosition, transition.toPosition, eased);
+            this.camera.quaternion.slerpQuaternions(transition.fromQuaternion, transition.toQuaternion, eased);
+            if (progress === 1) {
+                this.transition = null;
+                transition.onArrive?.();
+            }
+        } else if (this.active) {
+            this.controls.update();
+        }
+    }
+
+    /**
+     * Gets the point the camera rotates around.
+     * @return A copy of the inspected point
+     */
+    public getTarget(): THREE.Vector3 {
+        return this.controls.target.clone();
+    }
+}
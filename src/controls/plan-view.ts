@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { MapControls } from 'three/examples/jsm/controls/MapControls.js';
+import type { Georeference, HistoricMap } from '../georeference';
+import { getReferenceDistance } from '../util';
+
+/**
+ * How much the plan view can be zoomed out and in, relative to showing the reference distance across the screen height.
+ */
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 50;
+
+/**
+ * Longest the scale bar gets on screen, in pixels. Its length is rounded down to 1, 2 or 5 times a power of ten.
+ */
+const SCALE_BAR_MAX_WIDTH = 150;
+
+/**
+ * A top-down view of the town through an orthographic camera, for comparing the model with the historic map.
+ * Dragging pans, the mouse wheel or a pinch zooms. The georeferenced map can be laid over the model
+ * with an adjustable opacity, and a scale bar shows how long a distance on the screen is.
+ * One world unit is one metre.
+ */
+export class PlanView {
+    private camera: THREE.OrthographicCamera;
+    private controls: MapControls;
+    private scene: THREE.Scene;
+    private overlay: THREE.Mesh | null = null;
+    private overlayMaterial: THREE.MeshBasicMaterial;
+    private active: boolean = false;
+    private aspect: number = 0;
+    private panel: HTMLElement;
+    private scaleBarLine: HTMLElement;
+    private scaleBarLabel: HTMLElement;
+    private mapOptions: HTMLElement;
+    private overlayCheckbox: HTMLInputElement;
+    private opacitySlider: HTMLInputElement;
+
+    /**
+     * Creates the plan view. It stays inactive until {@link start} is called.
+     * @param scene The Three.js scene the map overlay is added to
+     * @param domElement The element receiving the mouse and touch input, usually the canvas
+     */
+    constructor(scene: THREE.Scene, domElement: HTMLElement) {
+        this.scene = scene;
+        const distance = getReferenceDistance();
+        this.camera = new THREE.OrthographicCamera(-distance / 2, distance / 2, distance / 2, -distance / 2, 1, distance * 3);
+
+        this.controls = new MapControls(this.camera, domElement);
+        this.controls.enabled = false;
+        this.controls.enableRotate = false;
+        this.controls.enableDamping = true;
+        this.controls.zoomToCursor = true;
+        this.controls.minZoom = MIN_ZOOM;
+        this.controls.maxZoom = MAX_ZOOM;
+
+        this.overlayMaterial = new THREE.MeshBasicMaterial({
+            transparent: true,
+            opacity: 0.5,
+            side: THREE.DoubleSide,
+            depthTest: false,
+            depthWrite: false,
+            fog: false,
+            toneMapped: false
+        });
+
+        this.panel = document.getElementById('plan-view-panel') as HTMLElement;
+        this.scaleBarLine = document.getElementById('plan-scale-bar-line') as HTMLElement;
+        this.scaleBarLabel = document.getElementById('plan-scale-bar-label') as HTMLElement;
+        this.mapOptions = document.getElementById('plan-map-options') as HTMLElement;
+        this.overlayCheckbox = document.getElementById('plan-map-overlay') as HTMLInputElement;
+        this.opacitySlider = document.getElementById('plan-map-opacity') as HTMLInputElement;
+
+        if (!this.panel || !this.scaleBarLine || !this.scaleBarLabel || !this.mapOptions || !this.overlayCheckbox || !this.opacitySlider) {
+            console.error('Plan view elements not found');
+            return;
+        }
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Connects the map checkbox and the opacity slider.
+     */
+    private setupEventListeners(): void {
+        this.overlayCheckbox.addEventListener('change', () => {
+            this.updateOverlayVisibility();
+        });
+        this.opacitySlider.addEventListener('input', () => {
+            this.overlayMaterial.opacity = parseFloat(this.opacitySlider.value);
+        });
+        this.panel.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+    }
+
+    /**
+     * Lays a georeferenced map over the model. Each corner of the image is placed where the georeference puts it,
+     * so the map is rotated, scaled and sheared to fit the control points. The map options appear only once a map is set.
+     * @param map The map description
+     * @param georeference The georeference of the map
+     * @param image The loaded map image
+     */
+    public setMap(map: HistoricMap, georeference: Georeference, image: HTMLImageElement): void {
+        const texture = new THREE.Texture(image);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        texture.needsUpdate = true;
+        this.overlayMaterial.map?.dispose();
+        this.overlayMaterial.map = texture;
+        this.overlayMaterial.needsUpdate = true;
+
+        // Image rows grow downwards while texture coordinates grow upwards
+        const corners = [
+            { image: [0, 0], uv: [0, 1] },
+            { image: [map.width, 0], uv: [1, 1] },
+            { image: [map.width, map.height], uv: [1, 0] },
+            { image: [0, map.height], uv: [0, 0] }
+        ];
+        const positions: number[] = [];
+        const uvs: number[] = [];
+        corners.forEach((corner) => {
+            const point = georeference.imageToScene(corner.image[0], corner.image[1]);
+            positions.push(point.x, 0, point.y);
+            uvs.push(corner.uv[0], corner.uv[1]);
+        });
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+        geometry.setIndex([0, 1, 2, 0, 2, 3]);
+
+        if (this.overlay) {
+            this.overlay.geometry.dispose();
+            this.overlay.geometry = geometry;
+        } else {
+            this.overlay = new THREE.Mesh(geometry, this.overlayMaterial);
+            // Drawn last and without depth test, so the map lies on top of the model wherever the ground is
+            this.overlay.renderOrder = 1000;
+            this.scene.add(this.overlay);
+        }
+        if (this.mapOptions) {
+            this.mapOptions.style.display = 'flex';
+        }
+        this.updateOverlayVisibility();
+    }
+
+    /**
+     * Shows the map overlay only while the plan view is active and the map is switched on.
+     */
+    private updateOverlayVisibility(): void {
+        if (this.overlay) {
+            this.overlay.visible = this.active && this.overlayCheckbox?.checked === true;
+        }
+    }
+
+    /**
+     * Switches to looking straight down, centered on a point.
+     * @param center The point shown in the middle of the screen
+     */
+    public start(center: THREE.Vector3): void {
+        this.active = true;
+        this.controls.target.set(center.x, 0, center.z);
+        this.camera.position.set(center.x, getReferenceDistance(), center.z);
+        this.camera.lookAt(this.controls.target);
+        this.controls.enabled = true;
+        this.controls.update();
+        this.updateOverlayVisibility();
+        if (this.panel) {
+            this.panel.style.display = 'flex';
+        }
+    }
+
+    /**
+     * Leaves the plan view and hides the map overlay and the scale bar.
+     */
+    public stop(): void {
+        this.active = false;
+        this.controls.enabled = false;
+        this.updateOverlayVisibility();
+        if (this.panel) {
+            this.panel.style.display = 'none';
+        }
+    }
+
+    /**
+     * Applies panning and zooming, follows the window size and updates the scale bar. Call this every frame.
+     */
+    public update(): void {
+        if (!this.active) return;
+
+        const aspect = window.innerWidth / window.innerHeight;
+        if (aspect !== this.aspect) {
+            this.aspect = aspect;
+            const halfHeight = getReferenceDistance() / 2;
+            this.camera.left = -halfHeight * aspect;
+            this.camera.right = halfHeight * aspect;
+            this.camera.updateProjectionMatrix();
+        }
+        this.controls.update();
+        this.updateScaleBar();
+    }
+
+    /**
+     * Sizes the scale bar to a round distance that fits its maximum width at the current zoom.
+     */
+    private updateScaleBar(): void {
+        if (!this.scaleBarLine) return;
+        const metresPerPixel = (this.camera.top - this.camera.bottom) / this.camera.zoom / window.innerHeight;
+        const maxLength = metresPerPixel * SCALE_BAR_MAX_WIDTH;
+        const power = Math.pow(10, Math.floor(Math.log10(maxLength)));
+        const length = [5, 2, 1].map((factor) => factor * power).find((candidate) => candidate <= maxLength) ?? power;
+
+        this.scaleBarLine.style.width = `${(length / metresPerPixel).toFixed(1)}px`;
+        this.scaleBarLabel.textContent = length >= 1000 ? `${length / 1000} km` : `${length} m`;
+    }
+
+    /**
+     * Gets the orthographic camera the plan view is seen through.
+     * @return The camera
+     */
+    public getCamera(): THREE.OrthographicCamera {
+        return this.camera;
+    }
+
+    /**
+     * Gets the point in the middle of the screen.
+     * @return A copy of the center, on the ground plane
+     */
+    public getCenter(): THREE.Vector3 {
+        return this.controls.target.clone();
+    }
+}
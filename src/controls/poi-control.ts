@@ -0,0 +1,181 @@
+import type { PointOfInterest } from '../nodes/points-of-interest';
+
+/**
+ * Displays a popup with a searchable list of points of interest.
+ * Selecting a point flies the camera there; a checkbox shows or hides the markers in the scene.
+ */
+export class PoiControl {
+    private popupContainer: HTMLElement;
+    private searchInput: HTMLInputElement;
+    private markersCheckbox: HTMLInputElement;
+    private listContainer: HTMLElement;
+    private points: PointOfInterest[] = [];
+    private onSelectCallback?: (point: PointOfInterest) => void;
+    private onMarkersToggleCallback?: (visible: boolean) => void;
+
+    /**
+     * Creates the points-of-interest popup.
+     */
+    constructor() {
+        this.popupContainer = document.getElementById('poi-popup') as HTMLElement;
+        this.searchInput = document.getElementById('poi-search') as HTMLInputElement;
+        this.markersCheckbox = document.getElementById('poi-show-markers') as HTMLInputElement;
+        this.listContainer = document.getElementById('poi-list') as HTMLElement;
+
+        if (!this.popupContainer || !this.searchInput || !this.markersCheckbox || !this.listContainer) {
+            console.error('Points of interest popup elements not found');
+            return;
+        }
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Sets up searching, the marker checkbox and closing the popup when clicking outside or pressing Escape.
+     */
+    private setupEventListeners(): void {
+        this.searchInput.addEventListener('input', () => this.renderList());
+        this.markersCheckbox.addEventListener('change', () => {
+            this.notifyMarkersToggle(this.markersCheckbox.checked);
+        });
+
+        this.popupContainer.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+        document.addEventListener('click', (e) => {
+            const poiButton = document.getElementById('poi-control');
+            const isOutsidePopup = !this.popupContainer.contains(e.target as Node);
+            const isNotPoiButton = !poiButton?.contains(e.target as Node);
+            if (isOutsidePopup && isNotPoiButton && this.isOpen()) {
+                this.close();
+            }
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isOpen()) {
+                this.close();
+            }
+        });
+    }
+
+    /**
+     * Sets the points shown in the list.
+     * @param points The points of interest
+     */
+    public setPoints(points: PointOfInterest[]): void {
+        this.points = points;
+        this.renderList();
+    }
+
+    /**
+     * Fills the list with all points whose name or description contains the search text.
+     */
+    private renderList(): void {
+        if (!this.listContainer) return;
+
+        const query = this.searchInput.value.trim().toLocaleLowerCase();
+        const matches = this.points.filter((point) =>
+            point.name.toLocaleLowerCase().includes(query)
+            || (point.description ?? '').toLocaleLowerCase().includes(query)
+        );
+
+        this.listContainer.innerHTML = '';
+        matches.forEach((point) => {
+            const item = document.createElement('div');
+            item.className = 'tour-item';
+            const name = document.createElement('div');
+            name.className = 'tour-item-name';
+            name.textContent = point.name;
+            item.appendChild(name);
+            if (point.description) {
+                const description = document.createElement('div');
+                description.className = 'tour-item-description';
+                description.textContent = point.description;
+                item.appendChild(description);
+            }
+            item.addEventListener('click', () => this.notifySelect(point));
+            this.listContainer.appendChild(item);
+        });
+
+        if (matches.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'tour-item-description';
+            empty.textContent = 'No matching places';
+            this.listContainer.appendChild(empty);
+        }
+    }
+
+    /**
+     * Shows whether the markers are visible without notifying the callback.
+     * @param visible Whether the markers are shown
+     */
+    public setMarkersVisible(visible: boolean): void {
+        if (this.markersCheckbox) {
+            this.markersCheckbox.checked = visible;
+        }
+    }
+
+    /**
+     * Makes the popup visible with smooth animation and focuses the search field.
+     */
+    public show(): void {
+        this.popupContainer.style.display = 'block';
+        requestAnimationFrame(() => {
+            this.popupContainer.classList.add('show');
+            this.searchInput.focus();
+        });
+    }
+
+    /**
+     * Hides the popup with smooth animation.
+     */
+    public close(): void {
+        this.popupContainer.classList.remove('show');
+        setTimeout(() => {
+            this.popupContainer.style.display = 'none';
+        }, 300);
+    }
+
+    /**
+     * Checks if the popup is currently visible.
+     * @return True if visible, false if hidden
+     */
+    public isOpen(): boolean {
+        return this.popupContainer.classList.contains('show');
+    }
+
+    /**
+     * Calls the registered callback with the selected point.
+     * @param point The selected point of interest
+     */
+    private notifySelect(point: PointOfInterest): void {
+        if (this.onSelectCallback) {
+            this.onSelectCallback(point);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user selects a point of interest.
+     * @param callback Function that receives the selected point
+     */
+    public onSelect(callback: (point: PointOfInterest) => void): void {
+        this.onSelectCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when the markers are shown or hidden.
+     * @param visible Whether the markers are shown
+     */
+    private notifyMarkersToggle(visible: boolean): void {
+        if (this.onMarkersToggleCallback) {
+            this.onMarkersToggleCallback(visible);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user shows or hides the markers.
+     * @param callback Function that receives whether the markers are shown
+     */
+    public onMarkersToggle(callback: (visible: boolean) => void): void {
+        this.onMarkersToggleCallback = callback;
+    }
+}
@@ -0,0 +1,530 @@
+import { movementModes, type MovementMode } from './keyboard-controls';
+import { cameraModes, type CameraMode } from '../scene';
+import { shadowQualities, type ShadowQuality } from '../ambient/shadows';
+import { qualityPresets, type QualityPreset } from '../graphics-quality';
+import { colorGrades, postEffects, type ColorGrade, type PostEffect } from '../post-processing';
+
+/**
+ * Labels of the quality presets as shown in the settings panel.
+ */
+const qualityPresetLabels: Record<QualityPreset, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    ultra: 'Ultra'
+};
+
+/**
+ * Labels of the shadow quality levels as shown in the settings panel.
+ */
+const shadowQualityLabels: Record<ShadowQuality, string> = {
+    off: 'Off',
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High'
+};
+
+/**
+ * Labels of the color grades as shown in the settings panel.
+ */
+const colorGradeLabels: Record<ColorGrade, string> = {
+    none: 'None',
+    engraving: 'Engraving',
+    sepia: 'Sepia'
+};
+
+/**
+ * Labels of the movement modes as shown in the settings panel.
+ */
+const movementModeLabels: Record<MovementMode, string> = {
+    fly: 'Fly',
+    walk: 'Walk'
+};
+
+/**
+ * Labels of the camera modes as shown in the settings panel.
+ */
+const cameraModeLabels: Record<CameraMode, string> = {
+    firstPerson: 'First person',
+    orbit: 'Orbit',
+    plan: 'Plan view'
+};
+
+/**
+ * A panel for graphics settings such as the quality preset, the shadow quality, the automatic resolution
+ * and the screen effects, and for how the player moves and which keys are used.
+ */
+export class SettingsControl {
+    private popupContainer: HTMLElement;
+    private presetSelect: HTMLSelectElement;
+    private shadowQualitySelect: HTMLSelectElement;
+    private autoResolutionCheckbox: HTMLInputElement;
+    private targetFpsSelect: HTMLSelectElement;
+    private resolutionDisplay: HTMLElement;
+    private reloadNote: HTMLElement;
+    private effectCheckboxes = new Map<PostEffect, HTMLInputElement>();
+    private colorGradeSelect: HTMLSelectElement;
+    private cameraModeSelect: HTMLSelectElement;
+    private movementModeSelect: HTMLSelectElement;
+    private eyeHeightInput: HTMLInputElement;
+    private keyBindingsButton: HTMLButtonElement;
+    private onPresetChangeCallback?: (preset: QualityPreset) => void;
+    private onShadowQualityChangeCallback?: (quality: ShadowQuality) => void;
+    private onAutoResolutionChangeCallback?: (enabled: boolean) => void;
+    private onTargetFpsChangeCallback?: (fps: number) => void;
+    private onEffectChangeCallback?: (effect: PostEffect, enabled: boolean) => void;
+    private onColorGradeChangeCallback?: (grade: ColorGrade) => void;
+    private onCameraModeChangeCallback?: (mode: CameraMode) => void;
+    private onMovementModeChangeCallback?: (mode: MovementMode) => void;
+    private onEyeHeightChangeCallback?: (height: number) => void;
+    private onKeyBindingsOpenCallback?: () => void;
+
+    /**
+     * Creates the settings panel and fills in the available options.
+     */
+    constructor() {
+        this.popupContainer = document.getElementById('settings-popup') as HTMLElement;
+        this.presetSelect = document.getElementById('settings-quality-preset') as HTMLSelectElement;
+        this.shadowQualitySelect = document.getElementById('settings-shadow-quality') as HTMLSelectElement;
+        this.autoResolutionCheckbox = document.getElementById('settings-auto-resolution') as HTMLInputElement;
+        this.targetFpsSelect = document.getElementById('settings-target-fps') as HTMLSelectElement;
+        this.resolutionDisplay = document.getElementById('settings-resolution') as HTMLElement;
+        this.reloadNote = document.getElementById('settings-reload-note') as HTMLElement;
+        this.colorGradeSelect = document.getElementById('settings-color-grade') as HTMLSelectElement;
+        this.cameraModeSelect = document.getElementById('settings-camera-mode') as HTMLSelectElement;
+        this.movementModeSelect = document.getElementById('settings-movement-mode') as HTMLSelectElement;
+        this.eyeHeightInput = document.getElementById('settings-eye-height') as HTMLInputElement;
+        this.keyBindingsButton = document.getElementById('settings-keybindings') as HTMLButtonElement;
+        postEffects.forEach((effect) => {
+            const checkbox = document.getElementById(`settings-effect-${effect}`) as HTMLInputElement;
+            if (checkbox) {
+                this.effectCheckboxes.set(effect, checkbox);
+            }
+        });
+
+        if (!this.popupContainer || !this.presetSelect || !this.shadowQualitySelect || !this.autoResolutionCheckbox
+            || !this.targetFpsSelect || !this.resolutionDisplay || !this.reloadNote || !this.colorGradeSelect
+            || this.effectCheckboxes.size !== postEffects.length || !this.cameraModeSelect || !this.movementModeSelect || !this.eyeHeightInput
+            || !this.keyBindingsButton) {
+            console.error('Settings elements not found');
+            return;
+        }
+
+        qualityPresets.forEach((preset) => {
+            const option = document.createElement('option');
+            option.value = preset;
+            option.textContent = qualityPresetLabels[preset];
+            this.presetSelect.appendChild(option);
+        });
+
+        shadowQualities.forEach((quality) => {
+            const option = document.createElement('option');
+            option.value = quality;
+            option.textContent = shadowQualityLabels[quality];
+            this.shadowQualitySelect.appendChild(option);
+        });
+
+        colorGrades.forEach((grade) => {
+            const option = document.createElement('option');
+            option.value = grade;
+            option.textContent = colorGradeLabels[grade];
+            this.colorGradeSelect.appendChild(option);
+        });
+
+        cameraModes.forEach((mode) => {
+            const option = document.createElement('option');
+            option.value = mode;
+            option.textContent = cameraModeLabels[mode];
+            this.cameraModeSelect.appendChild(option);
+        });
+
+        movementModes.forEach((mode) => {
+            const option = document.createElement('option');
+            option.value = mode;
+            option.textContent = movementModeLabels[mode];
+            this.movementModeSelect.appendChild(option);
+        });
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Sets up change handlers and closing the panel when clicking outside or pressing Escape.
+     */
+    private setupEventListeners(): void {
+        this.presetSelect.addEventListener('change', () => {
+            this.notifyPresetChange(this.presetSelect.value as QualityPreset);
+        });
+        this.shadowQualitySelect.addEventListener('change', () => {
+            this.notifyShadowQualityChange(this.shadowQualitySelect.value as ShadowQuality);
+        });
+        this.autoResolutionCheckbox.addEventListener('change', () => {
+            this.targetFpsSelect.disabled = !this.autoResolutionCheckbox.checked;
+            this.notifyAutoResolutionChange(this.autoResolutionCheckbox.checked);
+        });
+        this.targetFpsSelect.addEventListener('change', () => {
+            this.notifyTargetFpsChange(parseInt(this.targetFpsSelect.value, 10));
+        });
+        this.effectCheckboxes.forEach((checkbox, effect) => {
+            checkbox.addEventListener('change', () => {
+                this.notifyEffectChange(effect, checkbox.checked);
+            });
+        });
+        this.colorGradeSelect.addEventListener('change', () => {
+            this.notifyColorGradeChange(this.colorGradeSelect.value as ColorGrade);
+        });
+        this.cameraModeSelect.addEventListener('change', () => {
+            this.notifyCameraModeChange(this.cameraModeSelect.value as CameraMode);
+        });
+        this.movementModeSelect.addEventListener('change', () => {
+            this.notifyMovementModeChange(this.movementModeSelect.value as MovementMode);
+        });
+        this.eyeHeightInput.addEventListener('change', () => {
+            const height = parseFloat(this.eyeHeightInput.value);
+            if (!isNaN(height)) {
+                this.notifyEyeHeightChange(height);
+            }
+        });
+        this.keyBindingsButton.addEventListener('click', () => {
+            this.notifyKeyBindingsOpen();
+        });
+
+        this.popupContainer.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+        document.addEventListener('click', (e) => {
+            const settingsButton = document.getElementById('settings');
+            const isOutsidePopup = !this.popupContainer.contains(e.target as Node);
+            const isNotSettingsButton = !settingsButton?.contains(e.target as Node);
+            if (isOutsidePopup && isNotSettingsButton && this.isOpen()) {
+                this.close();
+            }
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isOpen()) {
+                this.close();
+            }
+        });
+    }
+
+    /**
+     * Makes the settings panel visible with smooth animation.
+     */
+    public show(): void {
+        this.popupContainer.style.display = 'block';
+        requestAnimationFrame(() => {
+            this.popupContainer.classList.add('show');
+        });
+    }
+
+    /**
+     * Hides the settings panel with smooth animation.
+     */
+    public close(): void {
+        this.popupContainer.classList.remove('show');
+        setTimeout(() => {
+            this.popupContainer.style.display = 'none';
+        }, 300);
+    }
+
+    /**
+     * Checks if the settings panel is currently visible.
+     * @return True if visible, false if hidden
+     */
+    public isOpen(): boolean {
+        return this.popupContainer.classList.contains('show');
+    }
+
+    /**
+     * Shows a quality preset in the panel without notifying the callback.
+     * @param preset The preset to select
+     */
+    public setPreset(preset: QualityPreset): void {
+        if (this.presetSelect) {
+            this.presetSelect.value = preset;
+        }
+    }
+
+    /**
+     * Shows a shadow quality in the panel without notifying the callback.
+     * @param quality The shadow quality to select
+     */
+    public setShadowQuality(quality: ShadowQuality): void {
+        if (this.shadowQualitySelect) {
+            this.shadowQualitySelect.value = quality;
+        }
+    }
+
+    /**
+     * Shows whether the automatic resolution is on without notifying the callback.
+     * @param enabled Whether the resolution follows the frame rate
+     */
+    public setAutoResolution(enabled: boolean): void {
+        if (this.autoResolutionCheckbox) {
+            this.autoResolutionCheckbox.checked = enabled;
+            this.targetFpsSelect.disabled = !enabled;
+        }
+    }
+
+    /**
+     * Shows the target frame rate without notifying the callback.
+     * @param fps Target frames per second
+     */
+    public setTargetFps(fps: number): void {
+        if (this.targetFpsSelect) {
+            this.targetFpsSelect.value = fps.toString();
+        }
+    }
+
+    /**
+     * Shows how much of the preset resolution is currently rendered.
+     * @param scale Fraction of the preset resolution
+     */
+    public setResolutionScale(scale: number): void {
+        if (this.resolutionDisplay) {
+            this.resolutionDisplay.textContent = `${Math.round(scale * 100)}%`;
+        }
+    }
+
+    /**
+     * Shows or hides the hint that a reload is needed to apply antialiasing.
+     * @param visible Whether the hint is shown
+     */
+    public setReloadNoteVisible(visible: boolean): void {
+        if (this.reloadNote) {
+            this.reloadNote.style.display = visible ? 'block' : 'none';
+        }
+    }
+
+    /**
+     * Shows whether a screen effect is on without notifying the callback.
+     * @param effect The effect
+     * @param enabled Whether the effect is drawn
+     */
+    public setEffectEnabled(effect: PostEffect, enabled: boolean): void {
+        const checkbox = this.effectCheckboxes.get(effect);
+        if (checkbox) {
+            checkbox.checked = enabled;
+        }
+    }
+
+    /**
+     * Shows a color grade in the panel without notifying the callback.
+     * @param grade The color grade to select
+     */
+    public setColorGrade(grade: ColorGrade): void {
+        if (this.colorGradeSelect) {
+            this.colorGradeSelect.value = grade;
+        }
+    }
+
+    /**
+     * Shows a camera mode in the panel without notifying the callback.
+     * @param mode The camera mode to select
+     */
+    public setCameraMode(mode: CameraMode): void {
+        if (this.cameraModeSelect) {
+            this.cameraModeSelect.value = mode;
+        }
+    }
+
+    /**
+     * Shows a movement mode in the panel without notifying the callback.
+     * @param mode The movement mode to select
+     */
+    public setMovementMode(mode: MovementMode): void {
+        if (this.movementModeSelect) {
+            this.movementModeSelect.value = mode;
+        }
+    }
+
+    /**
+     * Shows the eye height without notifying the callback.
+     * @param height Eye height in world units
+     */
+    public setEyeHeight(height: number): void {
+        if (this.eyeHeightInput) {
+            this.eyeHeightInput.value = height.toFixed(1);
+        }
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen quality preset.
+     * @param preset The chosen preset
+     */
+    private notifyPresetChange(preset: QualityPreset): void {
+        if (this.onPresetChangeCallback) {
+            this.onPresetChangeCallback(preset);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a quality preset.
+     * @param callback Function that receives the chosen preset
+     */
+    public onPresetChange(callback: (preset: QualityPreset) => void): void {
+        this.onPresetChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen shadow quality.
+     * @param quality The chosen shadow quality
+     */
+    private notifyShadowQualityChange(quality: ShadowQuality): void {
+        if (this.onShadowQualityChangeCallback) {
+            this.onShadowQualityChangeCallback(quality);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a shadow quality.
+     * @param callback Function that receives the chosen quality
+     */
+    public onShadowQualityChange(callback: (quality: ShadowQuality) => void): void {
+        this.onShadowQualityChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when the automatic resolution is turned on or off.
+     * @param enabled Whether the resolution follows the frame rate
+     */
+    private notifyAutoResolutionChange(enabled: boolean): void {
+        if (this.onAutoResolutionChangeCallback) {
+            this.onAutoResolutionChangeCallback(enabled);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user turns the automatic resolution on or off.
+     * @param callback Function that receives whether the automatic resolution is on
+     */
+    public onAutoResolutionChange(callback: (enabled: boolean) => void): void {
+        this.onAutoResolutionChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen target frame rate.
+     * @param fps Target frames per second
+     */
+    private notifyTargetFpsChange(fps: number): void {
+        if (this.onTargetFpsChangeCallback) {
+            this.onTargetFpsChangeCallback(fps);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a target frame rate.
+     * @param callback Function that receives the target frames per second
+     */
+    public onTargetFpsChange(callback: (fps: number) => void): void {
+        this.onTargetFpsChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when a screen effect is switched on or off.
+     * @param effect The switched effect
+     * @param enabled Whether the effect is drawn
+     */
+    private notifyEffectChange(effect: PostEffect, enabled: boolean): void {
+        if (this.onEffectChangeCallback) {
+            this.onEffectChangeCallback(effect, enabled);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user switches a screen effect on or off.
+     * @param callback Function that receives the effect and whether it is on
+     */
+    public onEffectChange(callback: (effect: PostEffect, enabled: boolean) => void): void {
+        this.onEffectChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen color grade.
+     * @param grade The chosen color grade
+     */
+    private notifyColorGradeChange(grade: ColorGrade): void {
+        if (this.onColorGradeChangeCallback) {
+            this.onColorGradeChangeCallback(grade);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a color grade.
+     * @param callback Function that receives the chosen color grade
+     */
+    public onColorGradeChange(callback: (grade: ColorGrade) => void): void {
+        this.onColorGradeChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen camera mode.
+     * @param mode The chosen camera mode
+     */
+    private notifyCameraModeChange(mode: CameraMode): void {
+        if (this.onCameraModeChangeCallback) {
+            this.onCameraModeChangeCallback(mode);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a camera mode.
+     * @param callback Function that receives the chosen camera mode
+     */
+    public onCameraModeChange(callback: (mode: CameraMode) => void): void {
+        this.onCameraModeChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback with a newly chosen movement mode.
+     * @param mode The chosen movement mode
+     */
+    private notifyMovementModeChange(mode: MovementMode): void {
+        if (this.onMovementModeChangeCallback) {
+            this.onMovementModeChangeCallback(mode);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user chooses a movement mode.
+     * @param callback Function that receives the chosen movement mode
+     */
+    public onMovementModeChange(callback: (mode: MovementMode) => void): void {
+        this.onMovementModeChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback with a newly entered eye height.
+     * @param height Eye height in world units
+     */
+    private notifyEyeHeightChange(height: number): void {
+        if (this.onEyeHeightChangeCallback) {
+            this.onEyeHeightChangeCallback(height);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user changes the eye height.
+     * @param callback Function that receives the eye height in world units
+     */
+    public onEyeHeightChange(callback: (height: number) => void): void {
+        this.onEyeHeightChangeCallback = callback;
+    }
+
+    /**
+     * Calls the registered callback when the user wants to change the keys.
+     */
+    private notifyKeyBindingsOpen(): void {
+        if (this.onKeyBindingsOpenCallback) {
+            this.onKeyBindingsOpenCallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called when the user wants to change the keys.
+     * @param callback Function that opens the key bindings dialog
+     */
+    public onKeyBindingsOpen(callback: () => void): void {
+        this.onKeyBindingsOpenCallback = callback;
+    }
+}
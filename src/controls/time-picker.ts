@@ -1,6 +1,7 @@
 /**
  * A UI control for selecting the time of day with a draggable slider.
  * Changes the sun position and time displayed in the scene.
+ * Sunrise and sunset of the selected day are marked on the slider track.
  */
 export class TimePicker {
     private sliderContainer: HTMLElement;
@@ -12,6 +13,10 @@ export class TimePicker {
     private onTimeChangeCallback?: (time: number) => void;
     private isDragging: boolean = false;
     private currentTime: number = 12;
+    private sunriseMarker: HTMLElement;
+    private sunsetMarker: HTMLElement;
+    private sunrise: number | null = 6;
+    private sunset: number | null = 18;
 
     /**
      * Creates a time picker UI and initializes it to the current real time.
@@ -23,11 +28,26 @@ export class TimePicker {
         this.sliderFill = this.sliderContainer.querySelector('.time-slider-fill') as HTMLElement;
         this.timeIcon = document.getElementById('time-icon') as HTMLElement;
         this.timeDisplay = document.getElementById('current-time-display') as HTMLElement;
+        this.sunriseMarker = this.createMarker('sunrise');
+        this.sunsetMarker = this.createMarker('sunset');
 
         this.setupEventListeners();
         this.initializeWithCurrentTime();
     }
 
+    /**
+     * Creates a marker on the slider track for a solar event.
+     * @param kind The event the marker stands for, used as CSS class
+     * @return The marker element
+     */
+    private createMarker(kind: 'sunrise' | 'sunset'): HTMLElement {
+        const marker = document.createElement('div');
+        marker.className = `time-slider-marker ${kind}`;
+        marker.style.display = 'none';
+        this.sliderTrack.insertBefore(marker, this.sliderHandle);
+        return marker;
+    }
+
     /**
      * Sets up all mouse, touch, and keyboard event handlers for the time picker.
      */
@@ -198,7 +218,9 @@ export class TimePicker {
      * Changes the icon to show a sun (daytime) or moon (nighttime) based on the selected time.
      */
     private updateIcon(): void {
-        const isDay = this.currentTime >= 6 && this.currentTime < 18;
+        const sunrise = this.sunrise ?? 6;
+        const sunset = this.sunset ?? 18;
+        const isDay = this.currentTime >= sunrise && this.currentTime < sunset;
         
         this.timeIcon.classList.remove('sun', 'moon');
         
@@ -248,6 +270,38 @@ export class TimePicker {
         this.updateIcon();
     }
 
+    /**
+     * Marks sunrise and sunset of the selected day on the slider track.
+     * The icon switches between sun and moon at these times.
+     * @param sunrise Time of sunrise in hours (0-24), or null if the sun does not rise
+     * @param sunset Time of sunset in hours (0-24), or null if the sun does not set
+     */
+    public setSunTimes(sunrise: number | null, sunset: number | null): void {
+        this.sunrise = sunrise;
+        this.sunset = sunset;
+        this.positionMarker(this.sunriseMarker, sunrise, 'Sunrise');
+        this.positionMarker(this.sunsetMarker, sunset, 'Sunset');
+        this.updateIcon();
+    }
+
+    /**
+     * Moves a marker to a time on the slider track, or hides it.
+     * @param marker The marker element
+     * @param time Time in hours (0-24), or null to hide the marker
+     * @param label Name of the event shown in the tooltip
+     */
+    private positionMarker(marker: HTMLElement, time: number | null, label: string): void {
+        if (time === null) {
+            marker.style.display = 'none';
+            return;
+        }
+        const hours = Math.floor(time);
+        const minutes = Math.floor((time - hours) * 60);
+        marker.style.display = 'block';
+        marker.style.left = `${(time / 24) * 100}%`;
+        marker.title = `${label} ${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+    }
+
     /**
      * Gets the currently selected time.
      * @return Time in hours (0-24)
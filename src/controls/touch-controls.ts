@@ -0,0 +1,270 @@
+import * as THREE from 'three';
+import type { KeyboardControls, MovementInput } from './keyboard-controls';
+import type { BuildingPicker } from './building-picker';
+
+/**
+ * How far the view turns per pixel a finger is dragged, in radians.
+ */
+const LOOK_SENSITIVITY = 0.004;
+
+/**
+ * How much two fingers have to spread or pinch, in pixels, to fly up or down at full speed.
+ */
+const PINCH_RANGE = 120;
+
+/**
+ * A touch that moves less than this many pixels and is shorter than {@link TAP_DURATION} counts as a tap.
+ */
+const TAP_DISTANCE = 10;
+
+/**
+ * Longest touch in milliseconds that still counts as a tap.
+ */
+const TAP_DURATION = 300;
+
+/**
+ * How long the player keeps being moved after the fingers were lifted, in milliseconds, so it glides to a stop.
+ */
+const IDLE_TIMEOUT = 1000;
+
+/**
+ * A finger on the scene, with where it last was and where and when it touched down.
+ */
+interface Touch {
+    x: number;
+    y: number;
+    startX: number;
+    startY: number;
+    startTime: number;
+}
+
+/**
+ * Lets visitors on tablets and phones move through the town, where the pointer cannot be locked.
+ * A virtual joystick in the lower left corner moves, dragging one finger over the scene looks around,
+ * spreading or pinching two fingers flies up or down, and tapping a building shows its information.
+ * Movement goes through the keyboard controls, so it uses the same speed and collision handling.
+ * Only the joystick and the scene react to touches, so the buttons and sliders keep working as usual.
+ */
+export class TouchControls {
+    private camera: THREE.PerspectiveCamera;
+    private keyboardControls: KeyboardControls;
+    private buildingPicker: BuildingPicker;
+    private surface: HTMLElement;
+    private joystick: HTMLElement;
+    private knob: HTMLElement;
+    private joystickPointer: number | null = null;
+    private joystickInput = { forward: 0, right: 0 };
+    private touches = new Map<number, Touch>();
+    private pinchStart: number | null = null;
+    private pinchInput: number = 0;
+    private lastInput: number = -Infinity;
+    private enabled: boolean = true;
+    private readonly euler = new THREE.Euler(0, 0, 0, 'YXZ');
+    private onActiveCallback?: () => void;
+
+    /**
+     * Checks whether the touch controls should be used instead of locking the pointer,
+     * which is the case on touch screens without a mouse and in browsers that cannot lock the pointer.
+     * @return True if the touch controls are needed
+     */
+    public static isNeeded(): boolean {
+        const canLockPointer = 'requestPointerLock' in document.body;
+        const isTouchOnly = navigator.maxTouchPoints > 0 && !window.matchMedia('(any-pointer: fine)').matches;
+        return !canLockPointer || isTouchOnly;
+    }
+
+    /**
+     * Creates the touch controls and shows the joystick.
+     * @param camera The camera turned by dragging
+     * @param keyboardControls The keyboard controls that move the player
+     * @param buildingPicker The picker that finds tapped buildings
+     * @param surface The element showing the scene, which receives the gestures
+     */
+    constructor(camera: THREE.PerspectiveCamera, keyboardControls: KeyboardControls, buildingPicker: BuildingPicker, surface: HTMLElement) {
+        this.camera = camera;
+        this.keyboardControls = keyboardControls;
+        this.buildingPicker = buildingPicker;
+        this.surface = surface;
+        this.joystick = document.getElementById('touch-joystick') as HTMLElement;
+        this.knob = document.getElementById('touch-joystick-knob') as HTMLElement;
+
+        if (!this.joystick || !this.knob) {
+            console.error('Touch joystick elements not found');
+            return;
+        }
+
+        this.joystick.style.display = 'block';
+        this.setupEventListeners();
+    }
+
+    /**
+     * Follows the fingers on the joystick and on the scene. Mouse events are left to the other controls.
+     */
+    private setupEventListeners(): void {
+        this.joystick.addEventListener('pointerdown', (e) => {
+            if (!this.enabled || e.pointerType === 'mouse' || this.joystickPointer !== null) return;
+            this.joystick.setPointerCapture(e.pointerId);
+            this.joystickPointer = e.pointerId;
+            this.moveJoystick(e.clientX, e.clientY);
+        });
+        this.joystick.addEventListener('pointermove', (e) => {
+            if (e.pointerId === this.joystickPointer) {
+                this.moveJoystick(e.clientX, e.clientY);
+            }
+        });
+        const releaseJoystick = (e: PointerEvent) => {
+            if (e.pointerId === this.joystickPointer) {
+                this.joystickPointer = null;
+                this.joystickInput = { forward: 0, right: 0 };
+                this.knob.style.transform = '';
+            }
+        };
+        this.joystick.addEventListener('pointerup', releaseJoystick);
+        this.joystick.addEventListener('pointercancel', releaseJoystick);
+
+        this.surface.addEventListener('pointerdown', (e) => {
+            if (!this.enabled || e.pointerType === 'mouse') return;
+            this.surface.setPointerCapture(e.pointerId);
+            this.touches.set(e.pointerId, { x: e.clientX, y: e.clientY, startX: e.clientX, startY: e.clientY, startTime: performance.now() });
+            this.pinchStart = this.touches.size === 2 ? this.getPinchDistance() : null;
+        });
+        this.surface.addEventListener('pointermove', (e) => this.handleSurfaceMove(e));
+        this.surface.addEventListener('pointerup', (e) => this.handleSurfaceEnd(e, true));
+        this.surface.addEventListener('pointercancel', (e) => this.handleSurfaceEnd(e, false));
+    }
+
+    /**
+     * Moves the joystick knob towards a finger, keeping it inside the joystick, and sets the movement from it.
+     * @param clientX Horizontal position of the finger on the screen
+     * @param clientY Vertical position of the finger on the screen
+     */
+    private moveJoystick(clientX: number, clientY: number): void {
+        const rect = this.joystick.getBoundingClientRect();
+        const radius = rect.width / 2;
+        const offset = new THREE.Vector2(clientX - rect.left - radius, clientY - rect.top - radius);
+        offset.clampLength(0, radius);
+
+        this.knob.style.transform = `translate(${offset.x}px, ${offset.y}px)`;
+        this.joystickInput = { forward: -offset.y / radius, right: offset.x / radius };
+    }
+
+    /**
+     * Turns the view while one finger is dragged and sets the flying speed while two fingers are spread or pinched.
+     * The view follows the finger as if the town was grabbed and pulled around.
+     * @param e The pointer event of the moved finger
+     */
+    private handleSurfaceMove(e: PointerEvent): void {
+        const touch = this.touches.get(e.pointerId);
+        if (!touch) return;
+        const dx = e.clientX - touch.x;
+        const dy = e.clientY - touch.y;
+        touch.x = e.clientX;
+        touch.y = e.clientY;
+
+        if (this.touches.size === 1) {
+            this.euler.setFromQuaternion(this.camera.quaternion);
+            this.euler.y += dx * LOOK_SENSITIVITY;
+            this.euler.x = THREE.MathUtils.clamp(this.euler.x + dy * LOOK_SENSITIVITY, -Math.PI / 2 + 0.01, Math.PI / 2 - 0.01);
+            this.camera.quaternion.setFromEuler(this.euler);
+            this.markActive();
+        } else if (this.touches.size === 2 && this.pinchStart !== null) {
+            this.pinchInput = THREE.MathUtils.clamp((this.getPinchDistance() - this.pinchStart) / PINCH_RANGE, -1, 1);
+        }
+    }
+
+    /**
+     * Forgets a lifted finger and selects the building under it if it was a tap.
+     * @param e The pointer event of the lifted finger
+     * @param lifted False if the browser took over the touch, which never counts as a tap
+     */
+    private handleSurfaceEnd(e: PointerEvent, lifted: boolean): void {
+        const touch = this.touches.get(e.pointerId);
+        if (!touch) return;
+        const wasSingle = this.touches.size === 1;
+        this.touches.delete(e.pointerId);
+        if (this.touches.size < 2) {
+            this.pinchStart = null;
+            this.pinchInput = 0;
+        }
+
+        const moved = Math.hypot(e.clientX - touch.startX, e.clientY - touch.startY);
+        const isTap = lifted && wasSingle && moved < TAP_DISTANCE && performance.now() - touch.startTime < TAP_DURATION;
+        if (isTap) {
+            const rect = this.surface.getBoundingClientRect();
+            this.buildingPicker.select(new THREE.Vector2(
+                ((e.clientX - rect.left) / rect.width) * 2 - 1,
+                -((e.clientY - rect.top) / rect.height) * 2 + 1
+            ));
+        }
+    }
+
+    /**
+     * Measures the distance between the two fingers on the scene.
+     * @return The distance in pixels
+     */
+    private getPinchDistance(): number {
+        const [first, second] = [...this.touches.values()];
+        return Math.hypot(first.x - second.x, first.y - second.y);
+    }
+
+    /**
+     * Remembers that the visitor is using the touch controls and tells the registered callback.
+     */
+    private markActive(): void {
+        this.lastInput = performance.now();
+        this.notifyActive();
+    }
+
+    /**
+     * Passes the movement from the joystick and the pinch to the keyboard controls.
+     * Call this every frame before the keyboard controls update.
+     */
+    public update(): void {
+        if (!this.enabled) return;
+        const input: MovementInput = {
+            forward: this.joystickInput.forward,
+            right: this.joystickInput.right,
+            up: this.pinchInput
+        };
+        if (input.forward !== 0 || input.right !== 0 || input.up !== 0) {
+            this.markActive();
+        }
+        this.keyboardControls.setExternalInput('touch', performance.now() - this.lastInput < IDLE_TIMEOUT ? input : null);
+    }
+
+    /**
+     * Turns the touch controls on or off, e.g. while the orbit camera takes the gestures on the scene.
+     * @param enabled Whether the joystick is shown and the gestures are followed
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        this.joystick.style.display = enabled ? 'block' : 'none';
+        if (!enabled) {
+            this.touches.clear();
+            this.pinchStart = null;
+            this.pinchInput = 0;
+            this.joystickPointer = null;
+            this.joystickInput = { forward: 0, right: 0 };
+            this.knob.style.transform = '';
+            this.keyboardControls.setExternalInput('touch', null);
+        }
+    }
+
+    /**
+     * Calls the registered callback when the visitor moves or looks around.
+     */
+    private notifyActive(): void {
+        if (this.onActiveCallback) {
+            this.onActiveCallback();
+        }
+    }
+
+    /**
+     * Registers a function to be called whenever the visitor moves or looks around by touch,
+     * e.g. to stop a running tour when the visitor takes over.
+     * @param callback Function to call
+     */
+    public onActive(callback: () => void): void {
+        this.onActiveCallback = callback;
+    }
+}
@@ -1,13 +1,30 @@
 import { Tour } from '../tours/tour';
+import { loadTours } from '../tours/tour-loader';
+import type { TourPlaybackState } from '../tours/tour-player';
+
+const playIcon = '<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M8 5v14l11-7z"/></svg>';
+const pauseIcon = '<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>';
 
 /**
  * Displays a popup with available tours that users can select to view.
  * Tours are automated camera movements that show different parts of the scene.
+ * While a tour is running, the popup shows its progress and playback buttons.
  */
 export class TourControl {
     private popupContainer: HTMLElement;
     private tourListContainer: HTMLElement;
+    private playerContainer: HTMLElement;
+    private playerName: HTMLElement;
+    private playerStep: HTMLElement;
+    private playerProgress: HTMLElement;
+    private playPauseButton: HTMLElement;
+    private playerPaused: boolean | null = null;
+    private tours: Tour[] = [];
     private onTourSelectCallback?: (tour: Tour) => void;
+    private onPlayPauseCallback?: () => void;
+    private onStopCallback?: () => void;
+    private onPreviousCallback?: () => void;
+    private onNextCallback?: () => void;
 
     /**
      * Creates a tour control popup with a list of available tours.
@@ -16,8 +33,13 @@ export class TourControl {
     constructor(tours: Tour[] = []) {
         this.popupContainer = document.getElementById('tours-popup') as HTMLElement;
         this.tourListContainer = document.getElementById('tours-list') as HTMLElement;
+        this.playerContainer = document.getElementById('tour-player') as HTMLElement;
+        this.playerName = document.getElementById('tour-player-name') as HTMLElement;
+        this.playerStep = document.getElementById('tour-player-step') as HTMLElement;
+        this.playerProgress = document.getElementById('tour-player-progress-fill') as HTMLElement;
+        this.playPauseButton = document.getElementById('tour-player-play-pause') as HTMLElement;
 
-        if (!this.popupContainer || !this.tourListContainer) {
+        if (!this.popupContainer || !this.tourListContainer || !this.playerContainer) {
             console.error('Tours popup elements not found');
             return;
         }
@@ -30,9 +52,14 @@ export class TourControl {
     }
 
     /**
-     * Sets up event listeners for closing the popup when clicking outside or pressing Escape.
+     * Sets up event listeners for the playback buttons and for closing the popup when clicking outside or pressing Escape.
      */
     private setupEventListeners(): void {
+        this.playPauseButton.addEventListener('click', () => this.onPlayPauseCallback?.());
+        document.getElementById('tour-player-stop')?.addEventListener('click', () => this.onStopCallback?.());
+        document.getElementById('tour-player-previous')?.addEventListener('click', () => this.onPreviousCallback?.());
+        document.getElementById('tour-player-next')?.addEventListener('click', () => this.onNextCallback?.());
+
         this.popupContainer.addEventListener('click', (e) => {
             e.stopPropagation();
         });
@@ -56,6 +83,7 @@ export class TourControl {
      * @param tours Array of tours to display
      */
     public setTours(tours: Tour[]): void {
+        this.tours = tours;
         this.tourListContainer.innerHTML = '';
         tours.forEach((tour) => {
             const tourItem = document.createElement('div');
@@ -71,15 +99,58 @@ export class TourControl {
         });
     }
 
+    /**
+     * Gets the tours shown in the tour list.
+     * @return Array of the displayed tours
+     */
+    public getTours(): Tour[] {
+        return this.tours;
+    }
+
+    /**
+     * Loads the tour files listed in a tour index and shows them in the tour list.
+     * @param indexUrl The URL of the tour index file
+     * @return Promise that resolves once the tours are displayed
+     */
+    public async loadTours(indexUrl: string = '/tours/index.json'): Promise<void> {
+        try {
+            this.setTours(await loadTours(indexUrl));
+        } catch (error) {
+            console.error('Failed to load tours:', error);
+        }
+    }
+
     /**
      * Handles selecting a tour and notifies the callback.
+     * The popup stays open so the playback controls remain reachable.
      * @param tour The tour that was selected
      */
     private selectTour(tour: Tour): void {
         if (this.onTourSelectCallback) {
             this.onTourSelectCallback(tour);
         }
-        this.close();
+    }
+
+    /**
+     * Updates the playback controls to show the state of the running tour.
+     * @param state The playback state, or null to hide the controls when no tour is running
+     */
+    public setPlaybackState(state: TourPlaybackState | null): void {
+        if (!state) {
+            this.playerContainer.classList.remove('active');
+            this.playerPaused = null;
+            return;
+        }
+
+        this.playerContainer.classList.add('active');
+        this.playerName.textContent = state.tour.name;
+        this.playerStep.textContent = `Step ${state.stepIndex + 1} of ${state.stepCount}`;
+        this.playerProgress.style.width = `${(state.progress * 100).toFixed(1)}%`;
+        if (state.paused !== this.playerPaused) {
+            this.playerPaused = state.paused;
+            this.playPauseButton.innerHTML = state.paused ? playIcon : pauseIcon;
+            this.playPauseButton.title = state.paused ? 'Resume' : 'Pause';
+        }
     }
 
     /**
@@ -117,5 +188,37 @@ export class TourControl {
     public onTourSelect(callback: (tour: Tour) => void): void {
         this.onTourSelectCallback = callback;
     }
+
+    /**
+     * Registers a function to be called when the play/pause button is clicked.
+     * @param callback Function to call
+     */
+    public onPlayPause(callback: () => void): void {
+        this.onPlayPauseCallback = callback;
+    }
+
+    /**
+     * Registers a function to be called when the stop button is clicked.
+     * @param callback Function to call
+     */
+    public onStop(callback: () => void): void {
+        this.onStopCallback = callback;
+    }
+
+    /**
+     * Registers a function to be called when the previous step button is clicked.
+     * @param callback Function to call
+     */
+    public onPrevious(callback: () => void): void {
+        this.onPreviousCallback = callback;
+    }
+
+    /**
+     * Registers a function to be called when the next step button is clicked.
+     * @param callback Function to call
+     */
+    public onNext(callback: () => void): void {
+        this.onNextCallback = callback;
+    }
 }
 
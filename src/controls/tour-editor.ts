@@ -0,0 +1,455 @@
+import { Scene } from '../scene';
+import { Tour, type TourEasing } from '../tours/tour';
+import { easingNames } from '../tours/easing';
+import {
+    stateToTourStep,
+    stepToTourParameter,
+    validateTourFile,
+    type TourFile,
+    type TourStepFile
+} from '../tours/tour-loader';
+
+/**
+ * Groups of tour step fields that can be switched on and off per step.
+ */
+type StepProperty = 'position' | 'cameraRotation' | 'dateTime' | 'fogValue' | 'clouds' | 'lanterns';
+
+/**
+ * The step fields belonging to each switchable property group, with the label shown in the editor.
+ */
+const stepProperties: Record<StepProperty, { label: string; fields: (keyof TourStepFile)[] }> = {
+    position: { label: 'Position', fields: ['position'] },
+    cameraRotation: { label: 'Rotation', fields: ['cameraRotation'] },
+    dateTime: { label: 'Time', fields: ['dateTime'] },
+    fogValue: { label: 'Fog', fields: ['fogValue'] },
+    clouds: { label: 'Clouds', fields: ['cloudMovementSpeed', 'cloudAmount'] },
+    lanterns: { label: 'Lanterns', fields: ['colorWarmth', 'colorIntensity'] }
+};
+
+/**
+ * A recorded step in the editor.
+ * Keeps all captured values so properties can be switched back on after being disabled.
+ */
+interface RecordedStep {
+    values: TourStepFile;
+    enabled: Record<StepProperty, boolean>;
+}
+
+/**
+ * Creates the property switches for a new step with every property animated.
+ * @return A record with all properties enabled
+ */
+function allPropertiesEnabled(): Record<StepProperty, boolean> {
+    return {
+        position: true,
+        cameraRotation: true,
+        dateTime: true,
+        fogValue: true,
+        clouds: true,
+        lanterns: true
+    };
+}
+
+/**
+ * A panel for recording tours directly in the scene.
+ * Captures the current view as keyframes, lets users reorder, delete and fine-tune steps,
+ * previews the result in place and exports or imports it as a tour JSON file.
+ */
+export class TourEditor {
+    private popupContainer: HTMLElement;
+    private nameInput: HTMLInputElement;
+    private descriptionInput: HTMLInputElement;
+    private splineCheckbox: HTMLInputElement;
+    private stepListContainer: HTMLElement;
+    private captureButton: HTMLButtonElement;
+    private previewButton: HTMLButtonElement;
+    private exportButton: HTMLButtonElement;
+    private importButton: HTMLButtonElement;
+    private importInput: HTMLInputElement;
+    private onPreviewCallback?: (tour: Tour) => void;
+
+    private customScene?: Scene;
+    private steps: RecordedStep[] = [];
+    private defaultDuration: number = 3000;
+
+    /**
+     * Creates the tour editor panel and finds its elements in the DOM.
+     */
+    constructor() {
+        this.popupContainer = document.getElementById('tour-editor-popup') as HTMLElement;
+        this.nameInput = document.getElementById('tour-editor-name') as HTMLInputElement;
+        this.descriptionInput = document.getElementById('tour-editor-description') as HTMLInputElement;
+        this.splineCheckbox = document.getElementById('tour-editor-spline') as HTMLInputElement;
+        this.stepListContainer = document.getElementById('tour-editor-steps') as HTMLElement;
+        this.captureButton = document.getElementById('tour-editor-capture') as HTMLButtonElement;
+        this.previewButton = document.getElementById('tour-editor-preview') as HTMLButtonElement;
+        this.exportButton = document.getElementById('tour-editor-export') as HTMLButtonElement;
+        this.importButton = document.getElementById('tour-editor-import') as HTMLButtonElement;
+        this.importInput = document.getElementById('tour-editor-import-file') as HTMLInputElement;
+
+        if (!this.popupContainer || !this.stepListContainer) {
+            console.error('Tour editor elements not found');
+            return;
+        }
+
+        this.setupEventListeners();
+        this.renderSteps();
+    }
+
+    /**
+     * Connects the editor to the scene it captures keyframes from.
+     * @param customScene The scene manager
+     */
+    public setScene(customScene: Scene): void {
+        this.customScene = customScene;
+    }
+
+    /**
+     * Sets up button handlers and closing the panel when clicking outside or pressing Escape.
+     */
+    private setupEventListeners(): void {
+        this.captureButton.addEventListener('click', () => this.captureStep());
+        this.previewButton.addEventListener('click', () => this.preview());
+        this.exportButton.addEventListener('click', () => this.exportTour());
+        this.importButton.addEventListener('click', () => this.importInput.click());
+        this.importInput.addEventListener('change', () => {
+            const file = this.importInput.files?.[0];
+            if (file) {
+                this.importTour(file);
+            }
+            this.importInput.value = '';
+        });
+
+        this.popupContainer.addEventListener('click', (e) => {
+            e.stopPropagation();
+        });
+        document.addEventListener('click', (e) => {
+            const editorButton = document.getElementById('tour-editor');
+            const isOutsidePopup = !this.popupContainer.contains(e.target as Node);
+            const isNotEditorButton = !editorButton?.contains(e.target as Node);
+            if (isOutsidePopup && isNotEditorButton && this.isOpen()) {
+                this.close();
+            }
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isOpen()) {
+                this.close();
+            }
+        });
+    }
+
+    /**
+     * Records the current scene state as a new step at the end of the tour.
+     */
+    private captureStep(): void {
+        if (!this.customScene) {
+            console.error('Tour editor scene not set');
+            return;
+        }
+        const duration = this.steps.length === 0 ? 0 : this.defaultDuration;
+        this.steps.push({
+            values: stateToTourStep(this.customScene.getState(), duration),
+            enabled: allPropertiesEnabled()
+        });
+        this.renderSteps();
+    }
+
+    /**
+     * Moves a step up or down in the tour.
+     * @param index The index of the step to move
+     * @param offset -1 to move it up, 1 to move it down
+     */
+    private moveStep(index: number, offset: number): void {
+        const target = index + offset;
+        if (target < 0 || target >= this.steps.length) return;
+        [this.steps[index], this.steps[target]] = [this.steps[target], this.steps[index]];
+        this.renderSteps();
+    }
+
+    /**
+     * Removes a step from the tour.
+     * @param index The index of the step to remove
+     */
+    private deleteStep(index: number): void {
+        this.steps.splice(index, 1);
+        this.renderSteps();
+    }
+
+    /**
+     * Rebuilds the step list so it matches the recorded steps.
+     */
+    private renderSteps(): void {
+        this.stepListContainer.innerHTML = '';
+
+        if (this.steps.length === 0) {
+            const emptyHint = document.createElement('div');
+            emptyHint.className = 'tour-editor-empty';
+            emptyHint.textContent = 'No steps yet. Move the camera and press "Capture".';
+            this.stepListContainer.appendChild(emptyHint);
+        }
+
+        this.steps.forEach((step, index) => {
+            const stepItem = document.createElement('div');
+            stepItem.className = 'tour-editor-step';
+
+            const header = document.createElement('div');
+            header.className = 'tour-editor-step-header';
+            const title = document.createElement('span');
+            title.className = 'tour-editor-step-title';
+            title.textContent = `Step ${index + 1}`;
+            header.appendChild(title);
+            header.appendChild(this.createStepButton('↑', 'Move up', index === 0, () => this.moveStep(index, -1)));
+            header.appendChild(this.createStepButton('↓', 'Move down', index === this.steps.length - 1, () => this.moveStep(index, 1)));
+            header.appendChild(this.createStepButton('✕', 'Delete', false, () => this.deleteStep(index)));
+            stepItem.appendChild(header);
+
+            const durationLabel = document.createElement('label');
+            durationLabel.className = 'tour-editor-duration';
+            durationLabel.textContent = 'Duration (ms) ';
+            const durationInput = document.createElement('input');
+            durationInput.type = 'number';
+            durationInput.min = '0';
+            durationInput.step = '100';
+            durationInput.value = step.values.duration.toString();
+            durationInput.addEventListener('change', () => {
+                const duration = Number(durationInput.value);
+                step.values.duration = isFinite(duration) ? Math.max(0, duration) : 0;
+                durationInput.value = step.values.duration.toString();
+            });
+            durationLabel.appendChild(durationInput);
+            durationLabel.appendChild(document.createTextNode(' Easing '));
+            durationLabel.appendChild(this.createEasingSelect(step));
+            stepItem.appendChild(durationLabel);
+
+            const holdLabel = document.createElement('label');
+            holdLabel.className = 'tour-editor-duration';
+            holdLabel.textContent = 'Hold (ms) ';
+            const holdInput = document.createElement('input');
+            holdInput.type = 'number';
+            holdInput.min = '0';
+            holdInput.step = '500';
+            holdInput.value = (step.values.hold ?? 0).toString();
+            holdInput.addEventListener('change', () => {
+                const hold = Number(holdInput.value);
+                if (isFinite(hold) && hold > 0) {
+                    step.values.hold = hold;
+                } else {
+                    delete step.values.hold;
+                }
+                holdInput.value = (step.values.hold ?? 0).toString();
+            });
+            holdLabel.appendChild(holdInput);
+            stepItem.appendChild(holdLabel);
+
+            stepItem.appendChild(this.createCaptionInput(step, 'title', 'Caption title'));
+            stepItem.appendChild(this.createCaptionInput(step, 'body', 'Caption text'));
+
+            const propertyList = document.createElement('div');
+            propertyList.className = 'tour-editor-properties';
+            for (const property of Object.keys(stepProperties) as StepProperty[]) {
+                const { label, fields } = stepProperties[property];
+                const hasValues = fields.every((field) => step.values[field] !== undefined);
+
+                const propertyLabel = document.createElement('label');
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = hasValues && step.enabled[property];
+                checkbox.disabled = !hasValues;
+                checkbox.addEventListener('change', () => {
+                    step.enabled[property] = checkbox.checked;
+                });
+                propertyLabel.appendChild(checkbox);
+                propertyLabel.appendChild(document.createTextNode(label));
+                propertyList.appendChild(propertyLabel);
+            }
+            stepItem.appendChild(propertyList);
+
+            this.stepListContainer.appendChild(stepItem);
+        });
+
+        this.previewButton.disabled = this.steps.length === 0;
+        this.exportButton.disabled = this.steps.length === 0;
+    }
+
+    /**
+     * Creates a text input for one field of a step's caption.
+     * Empty fields are removed from the caption, and an empty caption from the step.
+     * @param step The step whose caption is edited
+     * @param field The caption field to edit
+     * @param placeholder The hint shown while the input is empty
+     * @return The created input
+     */
+    private createCaptionInput(step: RecordedStep, field: 'title' | 'body', placeholder: string): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'tour-editor-input tour-editor-caption';
+        input.placeholder = placeholder;
+        input.value = step.values.caption?.[field] ?? '';
+        input.addEventListener('change', () => {
+            const caption = { ...step.values.caption, [field]: input.value.trim() };
+            if (!caption[field]) {
+                delete caption[field];
+            }
+            if (Object.keys(caption).length > 0) {
+                step.values.caption = caption;
+            } else {
+                delete step.values.caption;
+            }
+        });
+        return input;
+    }
+
+    /**
+     * Creates a selection list for the easing curve of a step.
+     * Custom bezier curves from imported files are kept and shown as "custom".
+     * @param step The step whose easing is edited
+     * @return The created selection list
+     */
+    private createEasingSelect(step: RecordedStep): HTMLSelectElement {
+        const select = document.createElement('select');
+        const options = Array.isArray(step.values.easing) ? [...easingNames, 'custom'] : easingNames;
+        for (const name of options) {
+            const option = document.createElement('option');
+            option.value = name;
+            option.textContent = name;
+            select.appendChild(option);
+        }
+        select.value = Array.isArray(step.values.easing) ? 'custom' : step.values.easing ?? 'quad';
+        select.addEventListener('change', () => {
+            if (select.value === 'quad') {
+                delete step.values.easing;
+            } else if (select.value !== 'custom') {
+                step.values.easing = select.value as TourEasing;
+            }
+        });
+        return select;
+    }
+
+    /**
+     * Creates a small icon button for a step row.
+     * @param text The button text
+     * @param title The tooltip shown on hover
+     * @param disabled Whether the button is disabled
+     * @param action The function to call when the button is clicked
+     * @return The created button
+     */
+    private createStepButton(text: string, title: string, disabled: boolean, action: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'tour-editor-step-btn';
+        button.textContent = text;
+        button.title = title;
+        button.disabled = disabled;
+        button.addEventListener('click', action);
+        return button;
+    }
+
+    /**
+     * Builds the tour file for the recorded steps, leaving out all disabled properties.
+     * @return The tour in its JSON file form
+     */
+    public getTourFile(): TourFile {
+        return {
+            name: this.nameInput.value.trim() || 'Untitled tour',
+            description: this.descriptionInput.value.trim(),
+            path: this.splineCheckbox.checked ? 'spline' : 'linear',
+            steps: this.steps.map((step) => {
+                const values: TourStepFile = { ...step.values };
+                for (const property of Object.keys(stepProperties) as StepProperty[]) {
+                    if (!step.enabled[property]) {
+                        for (const field of stepProperties[property].fields) {
+                            delete values[field];
+                        }
+                    }
+                }
+                return values;
+            })
+        };
+    }
+
+    /**
+     * Plays the recorded tour in the scene by notifying the preview callback.
+     */
+    private preview(): void {
+        if (this.steps.length === 0) return;
+        const file = this.getTourFile();
+        const tour = new Tour(file.name, file.description, file.steps.map(stepToTourParameter), file.path);
+        if (this.onPreviewCallback) {
+            this.onPreviewCallback(tour);
+        }
+        this.close();
+    }
+
+    /**
+     * Downloads the recorded tour as a JSON file that can be placed in `public/tours`.
+     */
+    private exportTour(): void {
+        if (this.steps.length === 0) return;
+        const file = this.getTourFile();
+        const json = JSON.stringify({ $schema: './tour.schema.json', ...file }, null, 4);
+        const blob = new Blob([json + '\n'], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${file.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tour'}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Loads a tour JSON file into the editor, replacing the current steps.
+     * @param file The tour file selected by the user
+     */
+    private async importTour(file: File): Promise<void> {
+        try {
+            const tourFile = validateTourFile(JSON.parse(await file.text()));
+            this.nameInput.value = tourFile.name;
+            this.descriptionInput.value = tourFile.description;
+            this.splineCheckbox.checked = tourFile.path === 'spline';
+            this.steps = tourFile.steps.map((values) => ({
+                values: { ...values },
+                enabled: allPropertiesEnabled()
+            }));
+            this.renderSteps();
+        } catch (error) {
+            console.error(`Failed to import tour ${file.name}:`, error);
+            alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Shows the tour editor panel with smooth animation.
+     */
+    public show(): void {
+        this.popupContainer.style.display = 'block';
+        requestAnimationFrame(() => {
+            this.popupContainer.classList.add('show');
+        });
+    }
+
+    /**
+     * Hides the tour editor panel with smooth animation.
+     */
+    public close(): void {
+        this.popupContainer.classList.remove('show');
+        setTimeout(() => {
+            this.popupContainer.style.display = 'none';
+        }, 300);
+    }
+
+    /**
+     * Checks if the tour editor panel is currently visible.
+     * @return True if visible, false if hidden
+     */
+    public isOpen(): boolean {
+        return this.popupContainer.classList.contains('show');
+    }
+
+    /**
+     * Registers a function to be called when the user previews the recorded tour.
+     * @param callback Function that receives the tour to play
+     */
+    public onPreview(callback: (tour: Tour) => void): void {
+        this.onPreviewCallback = callback;
+    }
+}
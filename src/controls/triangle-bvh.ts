@@ -0,0 +1,409 @@
+import * as THREE from 'three';
+
+/**
+ * Most triangles a leaf of the hierarchy holds before it is split.
+ */
+const MAX_LEAF_TRIANGLES = 8;
+
+/**
+ * Where a ray hits a triangle of the hierarchy.
+ */
+export interface TriangleHit {
+    distance: number;
+    point: THREE.Vector3;
+    normal: THREE.Vector3; // unit normal of the hit triangle, not oriented towards the ray
+}
+
+/**
+ * A triangle close to a capsule, with the closest points between the two.
+ */
+export interface TriangleContact {
+    triangle: THREE.Triangle;
+    pointOnSegment: THREE.Vector3; // closest point on the capsule's center line
+    pointOnTriangle: THREE.Vector3;
+    distance: number; // between the two points, zero if the center line passes through the triangle
+}
+
+/**
+ * A bounding volume hierarchy over the triangles of a model, in world space.
+ * Finds ray hits and triangles near a capsule while only looking at the few boxes
+ * that are close, instead of testing every mesh of the model.
+ */
+export class TriangleBVH {
+    private positions: Float32Array; // nine floats per triangle, sorted so every leaf owns a contiguous range
+    private nodeBounds: Float32Array; // six floats per node: min x, y, z and max x, y, z
+    private nodeData: Uint32Array; // two per node: leaf = first triangle and count, inner = right child and 0
+    private readonly triangle = new THREE.Triangle();
+    private readonly segmentPoint = new THREE.Vector3();
+    private readonly trianglePoint = new THREE.Vector3();
+
+    /**
+     * Builds the hierarchy over all meshes below a root object.
+     * Meshes with `skipCollision` in userData are ignored, instanced meshes add a copy per instance.
+     * The triangles are taken in their current world position, so rebuild the hierarchy after moving the model.
+     * @param root The root object, e.g. the scene of a loaded GLTF
+     */
+    constructor(root: THREE.Object3D) {
+        root.updateWorldMatrix(true, true);
+        const meshes: THREE.Mesh[] = [];
+        let triangleCount = 0;
+        root.traverse((object) => {
+            if (object instanceof THREE.Mesh && object.geometry?.attributes.position && !object.userData.skipCollision) {
+                meshes.push(object);
+                const instances = object instanceof THREE.InstancedMesh ? object.count : 1;
+                triangleCount += this.getTriangleCount(object.geometry) * instances;
+            }
+        });
+
+        const positions = new Float32Array(triangleCount * 9);
+        let offset = 0;
+        const matrix = new THREE.Matrix4();
+        const instanceMatrix = new THREE.Matrix4();
+        const vertex = new THREE.Vector3();
+        meshes.forEach((mesh) => {
+            const geometry = mesh.geometry;
+            const position = geometry.attributes.position;
+            const index = geometry.index;
+            const start = geometry.drawRange.start;
+            const count = this.getTriangleCount(geometry);
+            const instances = mesh instanceof THREE.InstancedMesh ? mesh.count : 1;
+            for (let instance = 0; instance < instances; instance++) {
+                matrix.copy(mesh.matrixWorld);
+                if (mesh instanceof THREE.InstancedMesh) {
+                    mesh.getMatrixAt(instance, instanceMatrix);
+                    matrix.multiply(instanceMatrix);
+                }
+                for (let i = start; i < start + count * 3; i++) {
+                    vertex.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(matrix);
+                    positions[offset++] = vertex.x;
+                    positions[offset++] = vertex.y;
+                    positions[offset++] = vertex.z;
+                }
+            }
+        });
+
+        const order = new Uint32Array(triangleCount);
+        const centroids = new Float32Array(triangleCount * 3);
+        for (let i = 0; i < triangleCount; i++) {
+            order[i] = i;
+            for (let axis = 0; axis < 3; axis++) {
+                centroids[i * 3 + axis] = (positions[i * 9 + axis] + positions[i * 9 + 3 + axis] + positions[i * 9 + 6 + axis]) / 3;
+            }
+        }
+
+        const bounds: number[] = [];
+        const data: number[] = [];
+        if (triangleCount > 0) {
+            this.buildNode(positions, centroids, order, 0, triangleCount, bounds, data);
+        }
+        this.nodeBounds = new Float32Array(bounds);
+        this.nodeData = new Uint32Array(data);
+
+        // Sort the triangles into leaf order so leaves can refer to ranges
+        this.positions = new Float32Array(triangleCount * 9);
+        for (let i = 0; i < triangleCount; i++) {
+            this.positions.set(positions.subarray(order[i] * 9, order[i] * 9 + 9), i * 9);
+        }
+    }
+
+    /**
+     * Counts the triangles of a geometry, respecting its draw range.
+     * @param geometry The geometry
+     * @return Number of triangles
+     */
+    private getTriangleCount(geometry: THREE.BufferGeometry): number {
+        const vertexCount = geometry.index ? geometry.index.count : geometry.attributes.position.count;
+        const end = Math.min(vertexCount, geometry.drawRange.start + geometry.drawRange.count);
+        return Math.floor(Math.max(0, end - geometry.drawRange.start) / 3);
+    }
+
+    /**
+     * Adds a node for a range of triangles and splits it at the middle of its longest side until the leaves are small.
+     * @param positions Triangle corners in original order
+     * @param centroids Triangle centers in original order
+     * @param order Triangle indices, reordered in place so each node's triangles lie together
+     * @param start First index into `order` of this node
+     * @param end One past the last index into `order` of this node
+     * @param bounds Node bounds being collected
+     * @param data Node data being collected
+     * @return Index of the new node
+     */
+    private buildNode(positions: Float32Array, centroids: Float32Array, order: Uint32Array, start: number, end: number,
+        bounds: number[], data: number[]): number {
+        const node = data.length / 2;
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        const centerMin = [Infinity, Infinity, Infinity];
+        const centerMax = [-Infinity, -Infinity, -Infinity];
+        for (let i = start; i < end; i++) {
+            const triangle = order[i];
+            for (let axis = 0; axis < 3; axis++) {
+                for (let corner = 0; corner < 3; corner++) {
+                    const value = positions[triangle * 9 + corner * 3 + axis];
+                    min[axis] = Math.min(min[axis], value);
+                    max[axis] = Math.max(max[axis], value);
+                }
+                const center = centroids[triangle * 3 + axis];
+                centerMin[axis] = Math.min(centerMin[axis], center);
+                centerMax[axis] = Math.max(centerMax[axis], center);
+            }
+        }
+        bounds.push(min[0], min[1], min[2], max[0], max[1], max[2]);
+        data.push(start, end - start);
+
+        if (end - start <= MAX_LEAF_TRIANGLES) {
+            return node;
+        }
+
+        const extents = [0, 1, 2].map((axis) => centerMax[axis] - centerMin[axis]);
+        const axis = extents.indexOf(Math.max(...extents));
+        const split = (centerMin[axis] + centerMax[axis]) / 2;
+        let middle = start;
+        for (let i = start; i < end; i++) {
+            if (centroids[order[i] * 3 + axis] < split) {
+                const swap = order[i];
+                order[i] = order[middle];
+                order[middle] = swap;
+                middle++;
+            }
+        }
+        // All centers in one place, split the range in half instead
+        if (middle === start || middle === end) {
+            middle = (start + end) >> 1;
+        }
+
+        this.buildNode(positions, centroids, order, start, middle, bounds, data);
+        const right = this.buildNode(positions, centroids, order, middle, end, bounds, data);
+        data[node * 2] = right;
+        data[node * 2 + 1] = 0;
+        return node;
+    }
+
+    /**
+     * Copies a triangle of the hierarchy.
+     * @param index Index of the triangle in leaf order
+     * @param target Triangle to copy into
+     * @return The target triangle
+     */
+    private getTriangle(index: number, target: THREE.Triangle): THREE.Triangle {
+        const p = this.positions;
+        const i = index * 9;
+        target.a.set(p[i], p[i + 1], p[i + 2]);
+        target.b.set(p[i + 3], p[i + 4], p[i + 5]);
+        target.c.set(p[i + 6], p[i + 7], p[i + 8]);
+        return target;
+    }
+
+    /**
+     * Finds the nearest triangle hit by a ray, from either side.
+     * @param ray The ray with a normalized direction
+     * @param far Longest distance along the ray to look
+     * @return The nearest hit, or null if no triangle is hit within the distance
+     */
+    public raycast(ray: THREE.Ray, far: number = Infinity): TriangleHit | null {
+        if (this.nodeData.length === 0) return null;
+
+        const origin = ray.origin;
+        const inverse = new THREE.Vector3(1 / ray.direction.x, 1 / ray.direction.y, 1 / ray.direction.z);
+        const point = new THREE.Vector3();
+        let nearest = far;
+        let hitIndex = -1;
+        const stack = [0];
+
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            if (this.rayBoxDistance(node, origin, inverse) > nearest) continue;
+
+            const count = this.nodeData[node * 2 + 1];
+            if (count === 0) {
+                stack.push(this.nodeData[node * 2], node + 1);
+                continue;
+            }
+            const first = this.nodeData[node * 2];
+            for (let i = first; i < first + count; i++) {
+                const triangle = this.getTriangle(i, this.triangle);
+                if (ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, point)) {
+                    const distance = point.distanceTo(origin);
+                    if (distance <= nearest) {
+                        nearest = distance;
+                        hitIndex = i;
+                    }
+                }
+            }
+        }
+
+        if (hitIndex < 0) return null;
+        const triangle = this.getTriangle(hitIndex, new THREE.Triangle());
+        return {
+            distance: nearest,
+            point: ray.at(nearest, new THREE.Vector3()),
+            normal: triangle.getNormal(new THREE.Vector3())
+        };
+    }
+
+    /**
+     * Measures where a ray enters the box of a node (slab test).
+     * @param node The node index
+     * @param origin Ray origin
+     * @param inverse Component-wise inverse of the ray direction
+     * @return Distance to the box, 0 if the origin is inside, Infinity if the ray misses
+     */
+    private rayBoxDistance(node: number, origin: THREE.Vector3, inverse: THREE.Vector3): number {
+        const b = this.nodeBounds;
+        const i = node * 6;
+        let near = 0;
+        let far = Infinity;
+        const o = [origin.x, origin.y, origin.z];
+        const inv = [inverse.x, inverse.y, inverse.z];
+        for (let axis = 0; axis < 3; axis++) {
+            let t1 = (b[i + axis] - o[axis]) * inv[axis];
+            let t2 = (b[i + 3 + axis] - o[axis]) * inv[axis];
+            // Rays parallel to a slab give NaN when starting on its border
+            if (isNaN(t1)) t1 = -Infinity;
+            if (isNaN(t2)) t2 = Infinity;
+            near = Math.max(near, Math.min(t1, t2));
+            far = Math.min(far, Math.max(t1, t2));
+        }
+        return near <= far ? near : Infinity;
+    }
+
+    /**
+     * Finds all triangles closer than a radius to a line segment, i.e. those touching a capsule.
+     * A segment with both ends in the same place gives a sphere.
+     * @param segment Center line of the capsule
+     * @param radius Radius of the capsule
+     * @return The touching triangles with their closest points
+     */
+    public getContacts(segment: THREE.Line3, radius: number): TriangleContact[] {
+        const contacts: TriangleContact[] = [];
+        if (this.nodeData.length === 0) return contacts;
+
+        const box = new THREE.Box3().setFromPoints([segment.start, segment.end]).expandByScalar(radius);
+        const b = this.nodeBounds;
+        const stack = [0];
+
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            const i = node * 6;
+            if (b[i] > box.max.x || b[i + 1] > box.max.y || b[i + 2] > box.max.z
+                || b[i + 3] < box.min.x || b[i + 4] < box.min.y || b[i + 5] < box.min.z) continue;
+
+            const count = this.nodeData[node * 2 + 1];
+            if (count === 0) {
+                stack.push(this.nodeData[node * 2], node + 1);
+                continue;
+            }
+            const first = this.nodeData[node * 2];
+            for (let t = first; t < first + count; t++) {
+                const triangle = this.getTriangle(t, this.triangle);
+                const distance = closestPointsSegmentTriangle(segment, triangle, this.segmentPoint, this.trianglePoint);
+                if (distance < radius) {
+                    contacts.push({
+                        triangle: triangle.clone(),
+                        pointOnSegment: this.segmentPoint.clone(),
+                        pointOnTriangle: this.trianglePoint.clone(),
+                        distance
+                    });
+                }
+            }
+        }
+        return contacts;
+    }
+}
+
+/**
+ * Finds the closest points between two line segments (after Ericson, Real-Time Collision Detection).
+ * @param p1 Start of the first segment
+ * @param q1 End of the first segment
+ * @param p2 Start of the second segment
+ * @param q2 End of the second segment
+ * @param target1 Receives the closest point on the first segment
+ * @param target2 Receives the closest point on the second segment
+ * @return Distance between the closest points
+ */
+function closestPointsSegmentSegment(p1: THREE.Vector3, q1: THREE.Vector3, p2: THREE.Vector3, q2: THREE.Vector3,
+    target1: THREE.Vector3, target2: THREE.Vector3): number {
+    const d1 = new THREE.Vector3().subVectors(q1, p1);
+    const d2 = new THREE.Vector3().subVectors(q2, p2);
+    const r = new THREE.Vector3().subVectors(p1, p2);
+    const a = d1.dot(d1);
+    const e = d2.dot(d2);
+    const f = d2.dot(r);
+    const epsilon = 1e-10;
+    let s = 0;
+    let t = 0;
+
+    if (a <= epsilon && e <= epsilon) {
+        s = 0;
+        t = 0;
+    } else if (a <= epsilon) {
+        t = THREE.MathUtils.clamp(f / e, 0, 1);
+    } else {
+        const c = d1.dot(r);
+        if (e <= epsilon) {
+            s = THREE.MathUtils.clamp(-c / a, 0, 1);
+        } else {
+            const b = d1.dot(d2);
+            const denominator = a * e - b * b;
+            s = denominator !== 0 ? THREE.MathUtils.clamp((b * f - c * e) / denominator, 0, 1) : 0;
+            t = (b * s + f) / e;
+            if (t < 0) {
+                t = 0;
+                s = THREE.MathUtils.clamp(-c / a, 0, 1);
+            } else if (t > 1) {
+                t = 1;
+                s = THREE.MathUtils.clamp((b - c) / a, 0, 1);
+            }
+        }
+    }
+
+    target1.copy(p1).addScaledVector(d1, s);
+    target2.copy(p2).addScaledVector(d2, t);
+    return target1.distanceTo(target2);
+}
+
+/**
+ * Finds the closest points between a line segment and a triangle.
+ * @param segment The line segment
+ * @param triangle The triangle
+ * @param targetOnSegment Receives the closest point on the segment
+ * @param targetOnTriangle Receives the closest point on the triangle
+ * @return Distance between the closest points, zero if the segment passes through the triangle
+ */
+function closestPointsSegmentTriangle(segment: THREE.Line3, triangle: THREE.Triangle,
+    targetOnSegment: THREE.Vector3, targetOnTriangle: THREE.Vector3): number {
+    const direction = segment.delta(new THREE.Vector3());
+    const length = direction.length();
+    if (length > 0) {
+        const ray = new THREE.Ray(segment.start, direction.divideScalar(length));
+        const hit = ray.intersectTriangle(triangle.a, triangle.b, triangle.c, false, new THREE.Vector3());
+        if (hit && hit.distanceTo(segment.start) <= length) {
+            targetOnSegment.copy(hit);
+            targetOnTriangle.copy(hit);
+            return 0;
+        }
+    }
+
+    let best = Infinity;
+    const pointOnSegment = new THREE.Vector3();
+    const pointOnTriangle = new THREE.Vector3();
+    const consider = (distance: number) => {
+        if (distance < best) {
+            best = distance;
+            targetOnSegment.copy(pointOnSegment);
+            targetOnTriangle.copy(pointOnTriangle);
+        }
+    };
+
+    for (const end of [segment.start, segment.end]) {
+        pointOnSegment.copy(end);
+        triangle.closestPointToPoint(end, pointOnTriangle);
+        consider(pointOnSegment.distanceTo(pointOnTriangle));
+    }
+    const corners = [triangle.a, triangle.b, triangle.c];
+    for (let i = 0; i < 3; i++) {
+        consider(closestPointsSegmentSegment(segment.start, segment.end, corners[i], corners[(i + 1) % 3],
+            pointOnSegment, pointOnTriangle));
+    }
+    return best;
+}
@@ -0,0 +1,171 @@
+import { Scene, type SceneState } from './scene';
+
+/**
+ * Keeps the URL hash in sync with the current scene state so views can be shared as links.
+ * Opening such a link restores the camera pose and mode, time of day, fog, clouds and lanterns.
+ * The hash is rewritten at most once per update interval to avoid flooding the browser history.
+ */
+export class DeepLink {
+    private customScene: Scene;
+    private updateInterval: number;
+    private lastUpdate: number = 0;
+    private lastHash: string = '';
+
+    /**
+     * Creates a deep link manager for a scene.
+     * @param customScene The scene whose state is encoded into the URL
+     * @param updateInterval Minimum time between hash updates in milliseconds
+     */
+    constructor(customScene: Scene, updateInterval: number = 500) {
+        this.customScene = customScene;
+        this.updateInterval = updateInterval;
+
+        window.addEventListener('hashchange', () => {
+            if (window.location.hash !== this.lastHash) {
+                this.restore();
+            }
+        });
+    }
+
+    /**
+     * Applies the scene state stored in the current URL hash, if there is one.
+     * @return True if a state was found and applied, false otherwise
+     */
+    public restore(): boolean {
+        const state = DeepLink.decode(window.location.hash, this.customScene.getState());
+        if (!state) {
+            return false;
+        }
+        this.customScene.applyState(state);
+        this.lastHash = window.location.hash;
+        return true;
+    }
+
+    /**
+     * Writes the current scene state into the URL hash if it changed and the throttle interval has passed.
+     * Call this every frame.
+     */
+    public update(): void {
+        const now = performance.now();
+        if (now - this.lastUpdate < this.updateInterval) {
+            return;
+        }
+        this.lastUpdate = now;
+
+        const hash = DeepLink.encode(this.customScene.getState());
+        if (hash === this.lastHash) {
+            return;
+        }
+        this.lastHash = hash;
+        history.replaceState(null, '', hash);
+    }
+
+    /**
+     * Converts a scene state into a compact URL hash.
+     * @param state The scene state to encode
+     * @return The hash including the leading '#'
+     */
+    public static encode(state: SceneState): string {
+        const { position, rotation } = state.camera;
+        const params = new URLSearchParams();
+        params.set('p', [position.x, position.y, position.z].map((v) => v.toFixed(2)).join(','));
+        params.set('r', [rotation.pitch, rotation.yaw].map((v) => v.toFixed(4)).join(','));
+        if (state.camera.mode !== 'firstPerson' && state.camera.target) {
+            const { target } = state.camera;
+            params.set('o', [target.x, target.y, target.z].map((v) => v.toFixed(2)).join(','));
+            if (state.camera.mode === 'plan') {
+                params.set('m', 'plan');
+            }
+        }
+        if (state.sun.dateTime) {
+            params.set('t', state.sun.dateTime);
+        }
+        params.set('loc', [state.sun.latitude, state.sun.longitude, state.sun.timezone].join(','));
+        params.set('f', state.fog.density.toFixed(6));
+        params.set('c', [state.clouds.speed, state.clouds.amount].map((v) => v.toFixed(3)).join(','));
+        params.set('l', [
+            state.lanterns.warmth.toFixed(3),
+            state.lanterns.intensity.toFixed(2),
+            state.lanterns.enabled ? '1' : '0'
+        ].join(','));
+        return `#${params.toString()}`;
+    }
+
+    /**
+     * Reads a scene state from a URL hash.
+     * Values missing from the hash or not parseable are taken from the fallback state.
+     * @param hash The URL hash, with or without the leading '#'
+     * @param fallback The state providing values the hash does not contain
+     * @return The decoded state, or null if the hash contains no camera position
+     */
+    public static decode(hash: string, fallback: SceneState): SceneState | null {
+        const params = new URLSearchParams(hash.replace(/^#/, ''));
+        const position = parseNumbers(params.get('p'), 3);
+        if (!position) {
+            return null;
+        }
+
+        const state: SceneState = structuredClone(fallback);
+        state.camera.position = { x: position[0], y: position[1], z: position[2] };
+
+        const rotation = parseNumbers(params.get('r'), 2);
+        if (rotation) {
+            state.camera.rotation = { pitch: rotation[0], yaw: rotation[1] };
+        }
+
+        // Links without a target open in first person; with one they orbit it unless the plan view is named
+        const target = parseNumbers(params.get('o'), 3);
+        if (!target) {
+            state.camera.mode = 'firstPerson';
+        } else {
+            state.camera.mode = params.get('m') === 'plan' ? 'plan' : 'orbit';
+        }
+        state.camera.target = target ? { x: target[0], y: target[1], z: target[2] } : null;
+
+        const dateTime = params.get('t');
+        if (dateTime && !isNaN(new Date(dateTime).getTime())) {
+            state.sun.dateTime = dateTime;
+        }
+
+        const location = parseNumbers(params.get('loc'), 3);
+        if (location) {
+            [state.sun.latitude, state.sun.longitude, state.sun.timezone] = location;
+        }
+
+        const fog = parseNumbers(params.get('f'), 1);
+        if (fog) {
+            state.fog.density = fog[0];
+        }
+
+        const clouds = parseNumbers(params.get('c'), 2);
+        if (clouds) {
+            [state.clouds.speed, state.clouds.amount] = clouds;
+        }
+
+        const lanterns = parseNumbers(params.get('l'), 3);
+        if (lanterns) {
+            state.lanterns.warmth = lanterns[0];
+            state.lanterns.intensity = lanterns[1];
+            state.lanterns.enabled = lanterns[2] !== 0;
+        }
+
+        return state;
+    }
+}
+
+/**
+ * Parses a comma-separated list of numbers from a hash parameter.
+ * @param value The raw parameter value
+ * @param count How many numbers are expected
+ * @return The parsed numbers, or null if the value is missing or malformed
+ */
+function parseNumbers(value: string | null, count: number): number[] | null {
+    if (value === null) {
+        return null;
+    }
+    const numbers = value.split(',').map(Number);
+    if (numbers.length !== count || numbers.some((n) => !isFinite(n))) {
+        return null;
+    }
+    return numbers;
+}
@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+
+/**
+ * A landmark whose position is known both on a map image and in the scene.
+ */
+export interface MapControlPoint {
+    name?: string;
+    image: { x: number; y: number }; // pixels of the full-size image, y pointing down
+    scene: { x: number; z: number }; // world units, x = west, z = south
+}
+
+/**
+ * The structure of a map file in `public/maps`: an image and the control points that place it in the scene.
+ */
+export interface HistoricMap {
+    description?: string;
+    image: string;
+    width: number;
+    height: number;
+    controlPoints: MapControlPoint[];
+}
+
+/**
+ * Converts between scene coordinates and pixels of a map image.
+ * The mapping is the affine transform that fits the control points best in the least-squares sense,
+ * so it may rotate, scale, shear and mirror the map. At least three control points that do not lie on a line are needed.
+ */
+export class Georeference {
+    private toImage: THREE.Matrix3;
+    private toScene: THREE.Matrix3;
+
+    /**
+     * Fits the transform to a set of control points.
+     * @param controlPoints Landmarks with known image and scene positions
+     */
+    constructor(controlPoints: MapControlPoint[]) {
+        if (controlPoints.length < 3) {
+            throw new Error(`At least 3 control points are needed, got ${controlPoints.length}`);
+        }
+
+        // Normal equations of the least-squares fit: (AᵀA) p = Aᵀb with rows [x, z, 1] of A
+        const normal = new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+        const rightU = new THREE.Vector3();
+        const rightV = new THREE.Vector3();
+        controlPoints.forEach(({ image, scene }) => {
+            const row: [number, number, number] = [scene.x, scene.z, 1];
+            for (let i = 0; i < 3; i++) {
+                for (let j = 0; j < 3; j++) {
+                    normal.elements[j * 3 + i] += row[i] * row[j];
+                }
+            }
+            rightU.add(new THREE.Vector3(...row).multiplyScalar(image.x));
+            rightV.add(new THREE.Vector3(...row).multiplyScalar(image.y));
+        });
+
+        if (Math.abs(normal.determinant()) < 1e-9) {
+            throw new Error('Control points must not lie on a line');
+        }
+        const inverse = normal.clone().invert();
+        const u = rightU.applyMatrix3(inverse);
+        const v = rightV.applyMatrix3(inverse);
+
+        this.toImage = new THREE.Matrix3().set(
+            u.x, u.y, u.z,
+            v.x, v.y, v.z,
+            0, 0, 1
+        );
+        this.toScene = this.toImage.clone().invert();
+    }
+
+    /**
+     * Finds the image pixel that shows a scene position.
+     * @param x Scene x coordinate (west)
+     * @param z Scene z coordinate (south)
+     * @return The pixel position on the full-size image
+     */
+    public sceneToImage(x: number, z: number): THREE.Vector2 {
+        const point = new THREE.Vector3(x, z, 1).applyMatrix3(this.toImage);
+        return new THREE.Vector2(point.x, point.y);
+    }
+
+    /**
+     * Finds the scene position shown at an image pixel.
+     * @param x Pixel column of the full-size image
+     * @param y Pixel row of the full-size image
+     * @return The scene position with x (west) in x and z (south) in y
+     */
+    public imageToScene(x: number, y: number): THREE.Vector2 {
+        const point = new THREE.Vector3(x, y, 1).applyMatrix3(this.toScene);
+        return new THREE.Vector2(point.x, point.y);
+    }
+
+    /**
+     * Turns a direction in the scene into the matching direction on the image.
+     * @param x Scene x component (west)
+     * @param z Scene z component (south)
+     * @return The unit direction on the image, y pointing down
+     */
+    public directionToImage(x: number, z: number): THREE.Vector2 {
+        const direction = new THREE.Vector3(x, z, 0).applyMatrix3(this.toImage);
+        return new THREE.Vector2(direction.x, direction.y).normalize();
+    }
+
+    /**
+     * Gets how many image pixels one world unit covers, averaged over all directions.
+     * @return Pixels per world unit
+     */
+    public getPixelsPerUnit(): number {
+        const e = this.toImage.elements;
+        return Math.sqrt(Math.abs(e[0] * e[4] - e[3] * e[1]));
+    }
+}
+
+/**
+ * Loads a map file and fits its georeference.
+ * @param url The URL of the map JSON file
+ * @return Promise that resolves to the map description and its georeference,
+ *         or null if the map has fewer than three control points and cannot be placed yet
+ */
+export async function loadHistoricMap(url: string): Promise<{ map: HistoricMap; georeference: Georeference } | null> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load map ${url}: ${response.status} ${response.statusText}`);
+    }
+    const map: HistoricMap = await response.json();
+    if (map.controlPoints.length < 3) {
+        return null;
+    }
+    return { map, georeference: new Georeference(map.controlPoints) };
+}
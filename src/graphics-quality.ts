@@ -0,0 +1,272 @@
+import * as THREE from 'three';
+import { Scene } from './scene';
+import type { ShadowQuality } from './ambient/shadows';
+
+/**
+ * Named quality levels from the cheapest to the most detailed rendering.
+ */
+export type QualityPreset = 'low' | 'medium' | 'high' | 'ultra';
+
+/**
+ * All quality presets from cheapest to most detailed.
+ */
+export const qualityPresets: QualityPreset[] = ['low', 'medium', 'high', 'ultra'];
+
+/**
+ * Everything a quality preset controls.
+ */
+export interface QualitySettings {
+    maxPixelRatio: number; // upper limit for the device pixel ratio, below 1 renders at less than screen resolution
+    antialias: boolean; // only takes effect when the renderer is created, i.e. after a reload
+    shadowQuality: ShadowQuality;
+    cloudMaxSteps: number; // samples along each view ray through the clouds
+    cloudLightSteps: number; // samples towards the sun for each cloud sample
+    lanternLightCount: number; // lantern point lights that may shine at once
+}
+
+/**
+ * The settings behind each quality preset.
+ */
+export const qualitySettings: Record<QualityPreset, QualitySettings> = {
+    low: { maxPixelRatio: 0.75, antialias: false, shadowQuality: 'off', cloudMaxSteps: 32, cloudLightSteps: 6, lanternLightCount: 4 },
+    medium: { maxPixelRatio: 1, antialias: false, shadowQuality: 'low', cloudMaxSteps: 48, cloudLightSteps: 10, lanternLightCount: 8 },
+    high: { maxPixelRatio: 1.5, antialias: true, shadowQuality: 'medium', cloudMaxSteps: 72, cloudLightSteps: 16, lanternLightCount: Infinity },
+    ultra: { maxPixelRatio: 2, antialias: true, shadowQuality: 'high', cloudMaxSteps: 96, cloudLightSteps: 24, lanternLightCount: Infinity }
+};
+
+/**
+ * The graphics choices of the user that are remembered between visits.
+ */
+export interface GraphicsSettings {
+    preset: QualityPreset;
+    autoResolution: boolean;
+    targetFps: number;
+}
+
+/**
+ * Key under which the graphics settings are kept in the local storage of the browser.
+ */
+const STORAGE_KEY = 'biberach.graphics';
+
+/**
+ * Lowest fraction of the preset resolution the automatic resolution may drop to.
+ */
+const MIN_RESOLUTION_SCALE = 0.5;
+
+/**
+ * Applies quality presets to the renderer and the scene and optionally adapts the render resolution
+ * to the measured frame time, so the frame rate stays near a target on slow devices.
+ */
+export class GraphicsQuality {
+    private renderer: THREE.WebGLRenderer;
+    private customScene: Scene;
+    private preset: QualityPreset;
+    private autoResolution: boolean;
+    private targetFps: number;
+    private resolutionScale: number = 1;
+    private averageFrameTime: number = 0;
+    private lastFrame: number = 0;
+    private lastAdjustment: number = 0;
+    private adjustInterval: number;
+    private onResolutionChangeCallback?: (scale: number) => void;
+
+    /**
+     * Creates the quality manager and applies the given settings.
+     * @param renderer The renderer whose pixel ratio is controlled
+     * @param customScene The scene whose shadows, clouds and lanterns are adjusted
+     * @param settings The settings to start with, usually from loadSettings()
+     * @param adjustInterval Minimum time between two resolution changes in milliseconds
+     */
+    constructor(renderer: THREE.WebGLRenderer, customScene: Scene, settings: GraphicsSettings, adjustInterval: number = 1000) {
+        this.renderer = renderer;
+        this.customScene = customScene;
+        this.preset = settings.preset;
+        this.autoResolution = settings.autoResolution;
+        this.targetFps = settings.targetFps;
+        this.adjustInterval = adjustInterval;
+        this.setPreset(settings.preset);
+    }
+
+    /**
+     * Reads the graphics settings stored by an earlier visit.
+     * Falls back to the high preset with fixed resolution if nothing valid is stored.
+     * @return The stored settings
+     */
+    public static loadSettings(): GraphicsSettings {
+        const defaults: GraphicsSettings = { preset: 'high', autoResolution: false, targetFps: 60 };
+        try {
+            const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+            if (!stored || typeof stored !== 'object') {
+                return defaults;
+            }
+            return {
+                preset: qualityPresets.includes(stored.preset) ? stored.preset : defaults.preset,
+                autoResolution: typeof stored.autoResolution === 'boolean' ? stored.autoResolution : defaults.autoResolution,
+                targetFps: typeof stored.targetFps === 'number' && stored.targetFps > 0 ? stored.targetFps : defaults.targetFps
+            };
+        } catch (error) {
+            console.warn('Could not read graphics settings:', error);
+            return defaults;
+        }
+    }
+
+    /**
+     * Remembers the current settings for the next visit.
+     */
+    private saveSettings(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.getSettings()));
+        } catch (error) {
+            console.warn('Could not store graphics settings:', error);
+        }
+    }
+
+    /**
+     * Gets the current graphics settings.
+     * @return Preset, automatic resolution and target frame rate
+     */
+    public getSettings(): GraphicsSettings {
+        return { preset: this.preset, autoResolution: this.autoResolution, targetFps: this.targetFps };
+    }
+
+    /**
+     * Switches to a quality preset and applies resolution, shadows, cloud detail and lantern lights.
+     * Antialiasing is stored but only changes after a reload.
+     * @param preset The preset to apply
+     */
+    public setPreset(preset: QualityPreset): void {
+        this.preset = preset;
+        const settings = qualitySettings[preset];
+
+        this.resolutionScale = 1;
+        this.applyPixelRatio();
+        this.customScene.getShadows().setQuality(settings.shadowQuality);
+        this.customScene.getClouds().setRaymarchSteps(settings.cloudMaxSteps, settings.cloudLightSteps);
+        this.customScene.getLanterns().setMaxLights(settings.lanternLightCount);
+
+        this.saveSettings();
+        console.log(`Graphics quality set to ${preset}`);
+    }
+
+    /**
+     * Gets the active quality preset.
+     * @return The preset
+     */
+    public getPreset(): QualityPreset {
+        return this.preset;
+    }
+
+    /**
+     * Checks whether the antialiasing of the active preset differs from the one the renderer was created with.
+     * @return True if a reload is needed to apply antialiasing
+     */
+    public needsReload(): boolean {
+        const antialias = this.renderer.getContextAttributes()?.antialias ?? false;
+        return antialias !== qualitySettings[this.preset].antialias;
+    }
+
+    /**
+     * Turns the automatic resolution on or off. Turning it off restores the full preset resolution.
+     * @param enabled Whether the resolution follows the frame rate
+     */
+    public setAutoResolution(enabled: boolean): void {
+        this.autoResolution = enabled;
+        this.averageFrameTime = 0;
+        if (!enabled && this.resolutionScale !== 1) {
+            this.resolutionScale = 1;
+            this.applyPixelRatio();
+        }
+        this.saveSettings();
+    }
+
+    /**
+     * Checks if the automatic resolution is turned on.
+     * @return True if the resolution follows the frame rate
+     */
+    public getAutoResolution(): boolean {
+        return this.autoResolution;
+    }
+
+    /**
+     * Sets the frame rate the automatic resolution tries to hold.
+     * @param fps Target frames per second
+     */
+    public setTargetFps(fps: number): void {
+        this.targetFps = fps;
+        this.saveSettings();
+    }
+
+    /**
+     * Gets the frame rate the automatic resolution tries to hold.
+     * @return Target frames per second
+     */
+    public getTargetFps(): number {
+        return this.targetFps;
+    }
+
+    /**
+     * Gets the fraction of the preset resolution that is currently rendered.
+     * @return Scale between 0.5 and 1
+     */
+    public getResolutionScale(): number {
+        return this.resolutionScale;
+    }
+
+    /**
+     * Sets the pixel ratio of the renderer from the device, the preset and the automatic scale.
+     */
+    private applyPixelRatio(): void {
+        const baseRatio = Math.min(window.devicePixelRatio, qualitySettings[this.preset].maxPixelRatio);
+        this.renderer.setPixelRatio(baseRatio * this.resolutionScale);
+        this.notifyResolutionChange(this.resolutionScale);
+    }
+
+    /**
+     * Measures the frame time and lowers or raises the resolution to keep the target frame rate.
+     * Call this every frame.
+     */
+    public update(): void {
+        const now = performance.now();
+        const frameTime = now - this.lastFrame;
+        this.lastFrame = now;
+        if (!this.autoResolution) return;
+
+        // Long pauses, e.g. from a background tab or a shader compile, say nothing about the rendering speed
+        if (frameTime <= 0 || frameTime > 250) return;
+        this.averageFrameTime = this.averageFrameTime === 0 ? frameTime : THREE.MathUtils.lerp(this.averageFrameTime, frameTime, 0.1);
+
+        if (now - this.lastAdjustment < this.adjustInterval) return;
+
+        const fps = 1000 / this.averageFrameTime;
+        let scale = this.resolutionScale;
+        if (fps < this.targetFps * 0.92) {
+            scale = Math.max(MIN_RESOLUTION_SCALE, scale * 0.9);
+        } else if (fps >= this.targetFps * 0.98 && scale < 1) {
+            scale = Math.min(1, scale * 1.05);
+        }
+
+        if (scale !== this.resolutionScale) {
+            this.resolutionScale = scale;
+            this.lastAdjustment = now;
+            this.applyPixelRatio();
+        }
+    }
+
+    /**
+     * Calls the registered callback with the new resolution scale.
+     * @param scale The fraction of the preset resolution
+     */
+    private notifyResolutionChange(scale: number): void {
+        if (this.onResolutionChangeCallback) {
+            this.onResolutionChangeCallback(scale);
+        }
+    }
+
+    /**
+     * Registers a function to be called when the render resolution changes.
+     * @param callback Function that receives the fraction of the preset resolution
+     */
+    public onResolutionChange(callback: (scale: number) => void): void {
+        this.onResolutionChangeCallback = callback;
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * Everything the user can do with the keyboard.
+ */
+export type InputAction =
+    | 'moveForward' | 'moveBackward' | 'moveLeft' | 'moveRight'
+    | 'flyUp' | 'flyDown' | 'toggleMovementMode' | 'releaseMouse' | 'toggleUI'
+    | 'previousSlide' | 'nextSlide'
+    | 'openTours' | 'openPointsOfInterest' | 'openTimePicker' | 'openSettings' | 'toggleMinimap' | 'togglePlanView';
+
+/**
+ * All actions in the order they are listed in the key bindings dialog.
+ */
+export const inputActions: InputAction[] = [
+    'moveForward', 'moveBackward', 'moveLeft', 'moveRight',
+    'flyUp', 'flyDown', 'toggleMovementMode', 'releaseMouse', 'toggleUI',
+    'previousSlide', 'nextSlide',
+    'openTours', 'openPointsOfInterest', 'openTimePicker', 'openSettings', 'toggleMinimap', 'togglePlanView'
+];
+
+/**
+ * Names of the actions as shown in the key bindings dialog.
+ */
+export const inputActionLabels: Record<InputAction, string> = {
+    moveForward: 'Move forward',
+    moveBackward: 'Move backward',
+    moveLeft: 'Move left',
+    moveRight: 'Move right',
+    flyUp: 'Fly up / jump',
+    flyDown: 'Fly down / run',
+    toggleMovementMode: 'Switch fly / walk',
+    releaseMouse: 'Release mouse',
+    toggleUI: 'Show / hide interface',
+    previousSlide: 'Previous slide',
+    nextSlide: 'Next slide',
+    openTours: 'Tours',
+    openPointsOfInterest: 'Points of interest',
+    openTimePicker: 'Date and time',
+    openSettings: 'Settings',
+    toggleMinimap: 'Show / hide map',
+    togglePlanView: 'Plan view'
+};
+
+/**
+ * How many keys can be bound to one action.
+ */
+export const KEYS_PER_ACTION = 2;
+
+/**
+ * The keys of each action, as `KeyboardEvent.code` values so they stay on the same place on any keyboard layout.
+ * Slides use Page Up and Page Down, which presentation remotes send, so the arrow keys are free for moving.
+ */
+export const defaultBindings: Record<InputAction, string[]> = {
+    moveForward: ['KeyW', 'ArrowUp'],
+    moveBackward: ['KeyS', 'ArrowDown'],
+    moveLeft: ['KeyA', 'ArrowLeft'],
+    moveRight: ['KeyD', 'ArrowRight'],
+    flyUp: ['Space'],
+    flyDown: ['ShiftLeft', 'ShiftRight'],
+    toggleMovementMode: ['KeyG'],
+    releaseMouse: ['Enter'],
+    toggleUI: ['KeyI'],
+    previousSlide: ['PageUp'],
+    nextSlide: ['PageDown'],
+    openTours: ['KeyT'],
+    openPointsOfInterest: ['KeyP'],
+    openTimePicker: ['KeyC'],
+    openSettings: ['KeyO'],
+    toggleMinimap: ['KeyM'],
+    togglePlanView: ['KeyV']
+};
+
+/**
+ * Keys that cannot be bound because the page already uses them, e.g. Escape closes every panel.
+ */
+export const reservedKeys = ['Escape', 'Tab'];
+
+/**
+ * Key under which changed key bindings are kept in the local storage of the browser.
+ */
+const STORAGE_KEY = 'biberach.keyBindings';
+
+/**
+ * Short names of keys whose code does not read well, e.g. in the key bindings dialog.
+ */
+const keyNames: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ShiftLeft: 'Left Shift',
+    ShiftRight: 'Right Shift',
+    ControlLeft: 'Left Ctrl',
+    ControlRight: 'Right Ctrl',
+    AltLeft: 'Left Alt',
+    AltRight: 'Right Alt',
+    PageUp: 'Page Up',
+    PageDown: 'Page Down'
+};
+
+/**
+ * The one place that knows which key triggers which action.
+ * Holds the default keys, the keys changed by the user, which are remembered between visits,
+ * and runs the handlers registered for single-press actions such as opening a panel.
+ */
+export class InputBindings {
+    private bindings: Record<InputAction, string[]>;
+    private handlers = new Map<InputAction, () => boolean | void>();
+
+    /**
+     * Loads the stored key bindings and starts listening for single-press actions.
+     */
+    constructor() {
+        this.bindings = InputBindings.loadBindings();
+        document.addEventListener('keydown', (e) => {
+            if (e.repeat || InputBindings.isTyping(e)) return;
+            const action = this.getAction(e.code);
+            const handler = action ? this.handlers.get(action) : undefined;
+            // Keys that did nothing keep their usual meaning, e.g. Enter on a focused button
+            if (handler && handler() !== false) {
+                e.preventDefault();
+            }
+        });
+    }
+
+    /**
+     * Reads the key bindings from the local storage, using the defaults for every action that was not changed.
+     * @return The key bindings of all actions
+     */
+    private static loadBindings(): Record<InputAction, string[]> {
+        const bindings = InputBindings.copyBindings(defaultBindings);
+        try {
+            const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+            if (!stored || typeof stored !== 'object') {
+                return bindings;
+            }
+            inputActions.forEach((action) => {
+                const keys = stored[action];
+                if (Array.isArray(keys) && keys.every((key) => typeof key === 'string' && !reservedKeys.includes(key))) {
+                    bindings[action] = keys.slice(0, KEYS_PER_ACTION);
+                }
+            });
+        } catch (error) {
+            console.warn('Could not read key bindings:', error);
+        }
+        return bindings;
+    }
+
+    /**
+     * Stores the key bindings in the local storage.
+     */
+    private saveBindings(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+        } catch (error) {
+            console.warn('Could not store key bindings:', error);
+        }
+    }
+
+    /**
+     * Copies key bindings so changes do not leak into the original.
+     * @param bindings The key bindings to copy
+     * @return A deep copy
+     */
+    private static copyBindings(bindings: Record<InputAction, string[]>): Record<InputAction, string[]> {
+        const copy = {} as Record<InputAction, string[]>;
+        inputActions.forEach((action) => {
+            copy[action] = [...bindings[action]];
+        });
+        return copy;
+    }
+
+    /**
+     * Checks whether a key event goes to a form field, button or link, where keys must not trigger actions.
+     * @param event The keyboard event
+     * @return True if the user is typing into a form field or operating a focused button or link
+     */
+    public static isTyping(event: KeyboardEvent): boolean {
+        const target = event.target;
+        return target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement
+            || target instanceof HTMLButtonElement || target instanceof HTMLAnchorElement;
+    }
+
+    /**
+     * Gives a key a readable name.
+     * @param code The `KeyboardEvent.code` of the key
+     * @return The name shown to the user, e.g. "W" for "KeyW"
+     */
+    public static formatKey(code: string): string {
+        if (keyNames[code]) return keyNames[code];
+        if (code.startsWith('Key')) return code.slice(3);
+        if (code.startsWith('Digit')) return code.slice(5);
+        if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+        return code;
+    }
+
+    /**
+     * Finds the action a key is bound to.
+     * @param code The `KeyboardEvent.code` of the key
+     * @return The action, or null if the key is not bound
+     */
+    public getAction(code: string): InputAction | null {
+        return inputActions.find((action) => this.bindings[action].includes(code)) ?? null;
+    }
+
+    /**
+     * Gets the keys bound to an action.
+     * @param action The action
+     * @return The `KeyboardEvent.code` values of its keys
+     */
+    public getKeys(action: InputAction): string[] {
+        return [...this.bindings[action]];
+    }
+
+    /**
+     * Finds the other action that already uses a key.
+     * @param code The `KeyboardEvent.code` of the key
+     * @param action The action the key should be bound to, which is not counted as a conflict
+     * @return The conflicting action, or null if the key is free
+     */
+    public findConflict(code: string, action: InputAction): InputAction | null {
+        return inputActions.find((other) => other !== action && this.bindings[other].includes(code)) ?? null;
+    }
+
+    /**
+     * Finds all actions that share a key with another action, e.g. after a new default was added
+     * on a key the user had already bound elsewhere. Such keys trigger only the first of the actions.
+     * @return The conflicting actions
+     */
+    public getConflictingActions(): InputAction[] {
+        return inputActions.filter((action) => this.bindings[action].some((code) => this.findConflict(code, action) !== null));
+    }
+
+    /**
+     * Binds a key to an action in one of its slots. Keys used by another action are refused.
+     * @param action The action
+     * @param slot Which of the action's keys to replace, from 0 to KEYS_PER_ACTION - 1
+     * @param code The `KeyboardEvent.code` of the new key, or null to remove the key in this slot
+     * @return The action that already uses the key if it was refused, otherwise null
+     */
+    public setKey(action: InputAction, slot: number, code: string | null): InputAction | null {
+        if (code !== null && reservedKeys.includes(code)) {
+            throw new Error(`${code} cannot be bound`);
+        }
+        if (code !== null) {
+            const conflict = this.findConflict(code, action);
+            if (conflict) return conflict;
+        }
+
+        const keys = [...this.bindings[action]];
+        if (code === null) {
+            keys.splice(slot, 1);
+        } else if (slot < keys.length) {
+            keys[slot] = code;
+        } else {
+            keys.push(code);
+        }
+        // Binding a key to the other slot of the same action moves it instead of listing it twice
+        this.bindings[action] = keys.filter((key, index) => keys.indexOf(key) === index).slice(0, KEYS_PER_ACTION);
+        this.saveBindings();
+        return null;
+    }
+
+    /**
+     * Puts every action back on its default keys.
+     */
+    public resetToDefaults(): void {
+        this.bindings = InputBindings.copyBindings(defaultBindings);
+        this.saveBindings();
+    }
+
+    /**
+     * Connects a single-press action to what it does, e.g. opening a panel.
+     * Held actions like moving are read by the keyboard controls with {@link getAction} instead.
+     * @param action The action
+     * @param handler The function to call when a key of the action is pressed;
+     *                it returns false if the key did nothing, so the browser handles the key as usual
+     */
+    public register(action: InputAction, handler: () => boolean | void): void {
+        this.handlers.set(action, handler);
+    }
+}
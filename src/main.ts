@@ -1,9 +1,11 @@
-import { Scene } from './scene.ts'
+import { Scene, type CameraMode, type SceneState } from './scene.ts'
 import * as THREE from 'three';
 
 import { Slideshow } from './slides.ts';
 import { Controls } from './controls.ts';
 import { TimePicker } from './controls/time-picker.ts';
+import { DatePicker } from './controls/date-picker.ts';
+import type { CalendarDate } from './ambient/calendar';
 import { FogSlider } from './controls/fog-slider.ts';
 import { CloudControl } from './controls/cloud-control.ts';
 import { LanternControl } from './controls/lantern-control.ts';
@@ -11,11 +13,24 @@ import { FullscreenControl } from './controls/fullscreen-control.ts';
 import { CoordinatesDisplay } from './controls/coordinates-display.ts';
 import { TourControl } from './controls/tour-control.ts';
 import { Tour } from './tours/tour';
-import { tours } from './tours/tours';
 import { TourAnimator } from './tours/tour-animator';
-import { CopySettingsControl } from './controls/copy-settings-control';
+import { TourPlayer } from './tours/tour-player';
+import { TourEditor } from './controls/tour-editor';
+import { CaptionOverlay } from './controls/caption-overlay';
+import { Minimap } from './controls/minimap';
+import { BuildingInfoPanel } from './controls/building-info-panel';
+import { PoiControl } from './controls/poi-control';
+import type { PointOfInterest } from './nodes/points-of-interest';
+import { SettingsControl } from './controls/settings-control';
+import type { ShadowQuality } from './ambient/shadows';
+import type { MovementMode } from './controls/keyboard-controls';
+import { DeepLink } from './deep-link';
+import { GraphicsQuality, qualitySettings, type QualityPreset } from './graphics-quality';
+import { PostProcessing, postEffects, type ColorGrade, type PostEffect } from './post-processing';
 
 import { getReferenceDistance } from './util';
+import { InputBindings } from './input-bindings';
+import { KeyBindingsControl } from './controls/key-bindings-control';
 import Stats from 'three/examples/jsm/libs/stats.module.js';
 
 /**
@@ -25,12 +40,16 @@ import Stats from 'three/examples/jsm/libs/stats.module.js';
  */
 function main() {
     const slideshow = new Slideshow();
+    const inputBindings = new InputBindings();
 
     const controls = new Controls();
     controls.registerPreviousButton(() => slideshow.previousSlide());
     controls.registerNextButton(() => slideshow.nextSlide());
+    inputBindings.register('previousSlide', () => slideshow.previousSlide());
+    inputBindings.register('nextSlide', () => slideshow.nextSlide());
 
     const timePicker = new TimePicker();
+    const datePicker = new DatePicker();
 
     const fogSlider = new FogSlider();
 
@@ -38,11 +57,13 @@ function main() {
 
     const lanternControl = new LanternControl();
 
-    const tourControl = new TourControl(tours);
+    const tourControl = new TourControl();
 
     const tourAnimator = new TourAnimator();
-    const copySettingsControl = new CopySettingsControl();
+    const tourEditor = new TourEditor();
     const fullscreenControl = new FullscreenControl();
+    const settingsControl = new SettingsControl();
+    const keyBindingsControl = new KeyBindingsControl(inputBindings);
 
     const stats = new Stats();
 	stats.showPanel(0);
@@ -51,8 +72,10 @@ function main() {
     const scene = new THREE.Scene();
     const distance = getReferenceDistance();
     const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, distance * 5);
+    // Antialiasing can only be chosen when the renderer is created, so it comes from the stored preset
+    const graphicsSettings = GraphicsQuality.loadSettings();
     const renderer = new THREE.WebGLRenderer({
-        antialias: false,
+        antialias: qualitySettings[graphicsSettings.preset].antialias,
         powerPreference: "high-performance",
     });
 
@@ -62,22 +85,51 @@ function main() {
     renderer.toneMappingExposure = 0.5;
     document.getElementById('app')!.appendChild(renderer.domElement);
 
-    const customScene = new Scene(scene, camera, renderer);
+    const customScene = new Scene(scene, camera, renderer, inputBindings);
     customScene.setTourAnimator(tourAnimator);
 
+    const graphicsQuality = new GraphicsQuality(renderer, customScene, graphicsSettings);
+    const postProcessing = new PostProcessing(renderer, scene, camera, customScene.getSun());
+
     const coordinatesDisplay = new CoordinatesDisplay(camera);
-    copySettingsControl.setHandlers(
-        camera,
-        customScene,
-        timePicker,
-        fogSlider,
-        cloudControl,
-        lanternControl
-    );
-
-    controls.registerTimePickerButton(() => {
-        timePicker.show();
+    tourEditor.setScene(customScene);
+    /**
+     * Marks sunrise and sunset of the day shown by the sun on the time picker.
+     */
+    function updateSunTimes() {
+        const sun = customScene.getSun();
+        const toHours = (date: Date | null) => date ? date.getHours() + date.getMinutes() / 60 : null;
+        timePicker.setSunTimes(toHours(sun.getSunrise()), toHours(sun.getSunset()));
+    }
+    updateSunTimes();
+    // Tours and shared links change the date without going through the pickers
+    customScene.getSun().onDayChange(updateSunTimes);
+
+    customScene.onStateApply((state: SceneState) => {
+        const dateTime = state.sun.dateTime ? new Date(state.sun.dateTime) : new Date();
+        timePicker.setTime(dateTime.getHours() + dateTime.getMinutes() / 60);
+        datePicker.setDate(dateTime);
+        updateSunTimes();
+        fogSlider.setDensity(state.fog.density);
+        cloudControl.setSpeed(state.clouds.speed);
+        cloudControl.setAmount(state.clouds.amount);
+        lanternControl.setWarmth(state.lanterns.warmth);
+        lanternControl.setIntensity(state.lanterns.intensity);
+        lanternControl.setEnabled(state.lanterns.enabled);
     });
+
+    const deepLink = new DeepLink(customScene);
+    deepLink.restore();
+
+    /**
+     * Opens the date and time popup showing the date of the sun.
+     */
+    function showTimePicker() {
+        datePicker.setDate(customScene.getSun().getCustomDateTime() ?? new Date());
+        updateSunTimes();
+        timePicker.show();
+    }
+    controls.registerTimePickerButton(showTimePicker);
     controls.registerFogControlButton(() => {
         fogSlider.show();
     });
@@ -90,16 +142,94 @@ function main() {
     controls.registerTourControlButton(() => {
         tourControl.show();
     });
+    controls.registerTourEditorButton(() => {
+        tourEditor.show();
+    });
+    /**
+     * Opens the settings panel showing the current settings.
+     */
+    function showSettings() {
+        settingsControl.setPreset(graphicsQuality.getPreset());
+        settingsControl.setShadowQuality(customScene.getShadows().getQuality());
+        settingsControl.setAutoResolution(graphicsQuality.getAutoResolution());
+        settingsControl.setTargetFps(graphicsQuality.getTargetFps());
+        settingsControl.setResolutionScale(graphicsQuality.getResolutionScale());
+        settingsControl.setReloadNoteVisible(graphicsQuality.needsReload());
+        postEffects.forEach((effect) => settingsControl.setEffectEnabled(effect, postProcessing.isEffectEnabled(effect)));
+        settingsControl.setColorGrade(postProcessing.getColorGrade());
+        settingsControl.setCameraMode(customScene.getCameraMode());
+        settingsControl.setMovementMode(customScene.getKeyboardControls().getMovementMode());
+        settingsControl.setEyeHeight(customScene.getKeyboardControls().getEyeHeight());
+        settingsControl.show();
+    }
+    controls.registerSettingsButton(showSettings);
+    settingsControl.onKeyBindingsOpen(() => {
+        settingsControl.close();
+        keyBindingsControl.show();
+    });
+    settingsControl.onPresetChange((preset: QualityPreset) => {
+        graphicsQuality.setPreset(preset);
+        settingsControl.setShadowQuality(customScene.getShadows().getQuality());
+        settingsControl.setReloadNoteVisible(graphicsQuality.needsReload());
+    });
+    settingsControl.onShadowQualityChange((quality: ShadowQuality) => {
+        customScene.getShadows().setQuality(quality);
+    });
+    settingsControl.onAutoResolutionChange((enabled: boolean) => {
+        graphicsQuality.setAutoResolution(enabled);
+    });
+    settingsControl.onTargetFpsChange((fps: number) => {
+        graphicsQuality.setTargetFps(fps);
+    });
+    graphicsQuality.onResolutionChange((scale: number) => {
+        settingsControl.setResolutionScale(scale);
+        postProcessing.setPixelRatio(renderer.getPixelRatio());
+    });
+    settingsControl.onEffectChange((effect: PostEffect, enabled: boolean) => {
+        postProcessing.setEffectEnabled(effect, enabled);
+    });
+    settingsControl.onColorGradeChange((grade: ColorGrade) => {
+        postProcessing.setColorGrade(grade);
+    });
+    settingsControl.onCameraModeChange((mode: CameraMode) => {
+        customScene.setCameraMode(mode);
+    });
+    /**
+     * Draws the scene through the camera of a mode and shows the mode in the settings.
+     * @param mode The active camera mode
+     */
+    function applyCameraMode(mode: CameraMode) {
+        postProcessing.setCamera(customScene.getActiveCamera());
+        settingsControl.setCameraMode(mode);
+    }
+    customScene.onCameraModeChange(applyCameraMode);
+    // A shared link may already have opened another mode
+    applyCameraMode(customScene.getCameraMode());
+    settingsControl.onMovementModeChange((mode: MovementMode) => {
+        customScene.getKeyboardControls().setMovementMode(mode);
+    });
+    settingsControl.onEyeHeightChange((height: number) => {
+        customScene.getKeyboardControls().setEyeHeight(height);
+        settingsControl.setEyeHeight(customScene.getKeyboardControls().getEyeHeight());
+    });
     timePicker.onTimeChange((time: number) => {
         const sun = customScene.getSun();
         const clocks = customScene.getClocks();
-        const now = new Date();
         const hours = Math.floor(time);
         const minutes = Math.floor((time - hours) * 60);
-        const customDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+        const customDate = sun.getCustomDateTime() ?? new Date();
+        customDate.setHours(hours, minutes, 0, 0);
         sun.setCustomDateTime(customDate);
         clocks.setCustomDateTime(customDate);
     });
+    datePicker.onDateChange((date: CalendarDate) => {
+        const sun = customScene.getSun();
+        sun.setCalendarDate(date);
+        const customDate = sun.getCustomDateTime() ?? new Date();
+        customScene.getClocks().setCustomDateTime(customDate);
+        datePicker.setDate(customDate);
+        updateSunTimes();
+    });
     fogSlider.onDensityChange((density: number) => {
         const fog = customScene.getFog();
         fog.setDensity(density);
@@ -128,22 +258,115 @@ function main() {
         const lanterns = customScene.getLanterns();
         lanterns.setDebugLighting(enabled);
     });
-    tourControl.onTourSelect(async (tour: Tour) => {
-        console.log(`Starting tour: ${tour.name}`);
-        const camera = customScene.getCamera();
-        for (const parameter of tour.parameters) {
-            await tourAnimator.animateTourParameter(
-                parameter,
-                camera,
-                customScene,
-                timePicker,
-                fogSlider,
-                cloudControl,
-                lanternControl
-            );
+
+    const tourPlayer = new TourPlayer(tourAnimator, customScene, timePicker, fogSlider, cloudControl, lanternControl);
+    const captionOverlay = new CaptionOverlay();
+    tourPlayer.onStateChange((state) => {
+        tourControl.setPlaybackState(state);
+        customScene.getBuildingPicker().setEnabled(state === null);
+        captionOverlay.setPaused(state?.paused ?? false);
+    });
+    tourPlayer.onCaptionChange((caption) => captionOverlay.show(caption));
+    tourControl.onTourSelect((tour: Tour) => tourPlayer.play(tour));
+    tourControl.onPlayPause(() => tourPlayer.togglePause());
+    tourControl.onStop(() => tourPlayer.stop());
+    tourControl.onPrevious(() => tourPlayer.previous());
+    tourControl.onNext(() => tourPlayer.next());
+    tourEditor.onPreview((tour: Tour) => tourPlayer.play(tour));
+
+    const minimap = new Minimap(camera);
+    minimap.load().then(() => {
+        const loaded = minimap.getMap();
+        if (loaded) {
+            customScene.getPlanView().setMap(loaded.map, loaded.georeference, loaded.image);
         }
-        console.log(`Tour completed: ${tour.name}`);
     });
+    tourControl.loadTours().then(() => minimap.setTours(tourControl.getTours()));
+    controls.registerMinimapButton(() => minimap.toggle());
+
+    /**
+     * Switches between the plan view and first person.
+     */
+    function togglePlanView() {
+        customScene.setCameraMode(customScene.getCameraMode() === 'plan' ? 'firstPerson' : 'plan');
+    }
+    controls.registerPlanViewButton(togglePlanView);
+
+    const poiControl = new PoiControl();
+    const pointsOfInterest = customScene.getPointsOfInterest();
+    pointsOfInterest.getPoints().then((points) => poiControl.setPoints(points));
+    /**
+     * Opens the points of interest popup.
+     */
+    function showPointsOfInterest() {
+        poiControl.setMarkersVisible(pointsOfInterest.isVisible());
+        poiControl.show();
+    }
+    controls.registerPoiControlButton(showPointsOfInterest);
+    poiControl.onMarkersToggle((visible: boolean) => pointsOfInterest.setVisible(visible));
+    poiControl.onSelect((point: PointOfInterest) => {
+        tourPlayer.stop();
+        poiControl.close();
+        const view = pointsOfInterest.getView(point, camera.position);
+        tourAnimator.animateTourParameter(
+            { position: view.position, cameraRotation: { pitch: view.pitch, yaw: view.yaw }, duration: 3000 },
+            camera, customScene, timePicker, fogSlider, cloudControl, lanternControl
+        );
+    });
+
+    const buildingInfoPanel = new BuildingInfoPanel();
+    const buildingPicker = customScene.getBuildingPicker();
+    buildingPicker.setKnownNames((name: string) => buildingInfoPanel.hasEntry(name));
+    buildingInfoPanel.loadCatalogue();
+    buildingPicker.onSelect((picked) => buildingInfoPanel.show(picked.names));
+    minimap.onTeleport((x: number, z: number) => {
+        tourPlayer.stop();
+        customScene.teleportTo(x, z);
+    });
+
+    /**
+     * Releases the mouse before a panel is opened by a key, so the panel can be used right away.
+     * @param show The function that opens the panel
+     * @return The handler for the key binding
+     */
+    function openWithKey(show: () => void) {
+        return () => {
+            customScene.getControls().unlock();
+            show();
+        };
+    }
+    inputBindings.register('openTours', openWithKey(() => tourControl.show()));
+    inputBindings.register('openPointsOfInterest', openWithKey(showPointsOfInterest));
+    inputBindings.register('openTimePicker', openWithKey(showTimePicker));
+    inputBindings.register('openSettings', openWithKey(showSettings));
+    inputBindings.register('toggleMinimap', () => minimap.toggle());
+    inputBindings.register('togglePlanView', togglePlanView);
+
+    const gamepadControls = customScene.getGamepadControls();
+    let gamepadTourIndex = -1;
+    /**
+     * Plays the tour before or after the one last started with the gamepad, wrapping around at the ends.
+     * @param offset -1 for the previous tour, 1 for the next one
+     */
+    function playGamepadTour(offset: number) {
+        const tours = tourControl.getTours();
+        if (tours.length === 0) return;
+        gamepadTourIndex = (gamepadTourIndex + offset + tours.length) % tours.length;
+        tourPlayer.play(tours[gamepadTourIndex]);
+    }
+    /**
+     * Stops a running tour once the visitor takes over with a gamepad or by touch.
+     */
+    function stopTourOnInput() {
+        if (tourPlayer.isPlaying()) {
+            tourPlayer.stop();
+        }
+    }
+    gamepadControls.onActive(stopTourOnInput);
+    customScene.getTouchControls()?.onActive(stopTourOnInput);
+    gamepadControls.onPreviousTour(() => playGamepadTour(-1));
+    gamepadControls.onNextTour(() => playGamepadTour(1));
+    gamepadControls.onToggleUI(() => customScene.getKeyboardControls().toggleUI());
 
     (window as any).scene = customScene;
     (window as any).sun = customScene.getSun();
@@ -152,14 +375,19 @@ function main() {
     
     /**
      * Main animation loop that updates and renders the scene every frame.
-     * Updates performance stats, scene animations, camera position display, and renders the final frame.
+     * Updates performance stats, scene animations, camera position display, and renders the final frame through the screen effects.
      */
     function animate() {
         stats.begin();
         requestAnimationFrame(animate);
         customScene.animate();
         coordinatesDisplay.update();
-        renderer.render(scene, camera);
+        minimap.update();
+        tourPlayer.update();
+        deepLink.update();
+        graphicsQuality.update();
+        postProcessing.update();
+        postProcessing.render();
         stats.end();
     }
 
@@ -167,6 +395,8 @@ function main() {
         camera.aspect = window.innerWidth / window.innerHeight;
         camera.updateProjectionMatrix();
         renderer.setSize(window.innerWidth, window.innerHeight);
+        postProcessing.setSize(window.innerWidth, window.innerHeight);
+        customScene.getShadows().updateFrustums();
     });
 
     animate();
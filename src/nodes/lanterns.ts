@@ -14,6 +14,9 @@ export class Lanterns extends Gltf {
     private lanternInstances: Group[] = [];
     private lights: PointLight[] = [];
     private isEnabled: boolean = true;
+    private maxLights: number = Infinity;
+    private warmth: number = 0.6;
+    private intensity: number = 30.0;
     private debugLightingEnabled: boolean = false;
     private debugAmbientLight: AmbientLight | null = null;
     private debugDirectionalLight: DirectionalLight | null = null;
@@ -114,6 +117,7 @@ export class Lanterns extends Gltf {
 
     /**
      * Adds a point light to a lantern positioned at the top of the lantern model.
+     * The lights are kept sorted by their distance from the town center, so a light limit keeps the central ones.
      * @param lanternClone The lantern object to add a light to
      * @return The created point light
      */
@@ -129,6 +133,8 @@ export class Lanterns extends Gltf {
         
         this.scene.add(light);
         this.lights.push(light);
+        this.lights.sort((a, b) => Math.hypot(a.position.x, a.position.z) - Math.hypot(b.position.x, b.position.z));
+        this.updateLightVisibility();
         
         return light;
     }
@@ -146,8 +152,8 @@ export class Lanterns extends Gltf {
             this.lanternGroup.add(lanternClone);
         });
 
-        this.setWarmth(0.6);
-        this.setIntensity(30.0);
+        this.setWarmth(this.warmth);
+        this.setIntensity(this.intensity);
         
         this.scene.add(this.lanternGroup);
     }
@@ -172,6 +178,7 @@ export class Lanterns extends Gltf {
      * @param warmth Color warmth (0 = cool white, 1 = warm orange)
      */
     public setWarmth(warmth: number) {
+        this.warmth = warmth;
         const coolColor = new Color(0xffffff);
         const warmColor = new Color(0xffaa44);
         const color = new Color().lerpColors(coolColor, warmColor, warmth);
@@ -186,19 +193,61 @@ export class Lanterns extends Gltf {
      * @param intensity Light intensity (higher = brighter)
      */
     public setIntensity(intensity: number) {
+        this.intensity = intensity;
         this.lights.forEach(light => {
             light.intensity = intensity;
         });
     }
 
+    /**
+     * Gets the current color warmth of the lantern lights.
+     * @return Color warmth (0 = cool white, 1 = warm orange)
+     */
+    public getWarmth(): number {
+        return this.warmth;
+    }
+
+    /**
+     * Gets the current brightness of the lantern lights.
+     * @return Light intensity
+     */
+    public getIntensity(): number {
+        return this.intensity;
+    }
+
     /**
      * Turns all lantern lights on or off.
      * @param enabled Whether the lights should be on
      */
     public setEnabled(enabled: boolean) {
         this.isEnabled = enabled;
-        this.lights.forEach(light => {
-            light.visible = enabled;
+        this.updateLightVisibility();
+    }
+
+    /**
+     * Limits how many lantern lights shine at once. Every point light costs shading time on all lit surfaces,
+     * so slower devices only light the lanterns closest to the town center.
+     * @param count Maximum number of lights, Infinity for all
+     */
+    public setMaxLights(count: number) {
+        this.maxLights = Math.max(0, count);
+        this.updateLightVisibility();
+    }
+
+    /**
+     * Gets how many lantern lights may shine at once.
+     * @return Maximum number of lights
+     */
+    public getMaxLights(): number {
+        return this.maxLights;
+    }
+
+    /**
+     * Shows the lights that are enabled and within the light limit and hides all others.
+     */
+    private updateLightVisibility() {
+        this.lights.forEach((light, index) => {
+            light.visible = this.isEnabled && index < this.maxLights;
         });
     }
 
@@ -0,0 +1,174 @@
+import { CanvasTexture, Group, SRGBColorSpace, Sprite, SpriteMaterial, Vector3 } from "three";
+import type { Scene } from "three";
+
+/**
+ * A place worth visiting, as stored in the points-of-interest data file.
+ */
+export interface PointOfInterest {
+    id: string;
+    name: string;
+    description?: string;
+    position: { x: number; y: number; z: number }; // where the marker floats
+    camera?: {
+        position: { x: number; y: number; z: number };
+        pitch: number;
+        yaw: number;
+    }; // view the camera flies to, looks at the marker from nearby if missing
+}
+
+/**
+ * Height of a marker label on screen, as a fraction of the screen height.
+ */
+const MARKER_HEIGHT = 0.045;
+
+/**
+ * Shows labelled markers above the points of interest listed in a data file.
+ * The markers keep the same size on screen and stay visible through buildings.
+ */
+export class PointsOfInterest {
+    scene: Scene;
+    private markerGroup: Group;
+    private points: PointOfInterest[] = [];
+    private loaded: Promise<PointOfInterest[]>;
+
+    /**
+     * Creates the markers and starts loading the points of interest.
+     * @param scene The Three.js scene to add the markers to
+     * @param url The URL of the points-of-interest data file
+     */
+    public constructor(scene: Scene, url: string = "/poi/points-of-interest.json") {
+        this.scene = scene;
+        this.markerGroup = new Group();
+        this.scene.add(this.markerGroup);
+        this.loaded = this.load(url);
+    }
+
+    /**
+     * Loads the data file and creates a marker for every point.
+     * @param url The URL of the points-of-interest data file
+     * @return Promise that resolves to the loaded points, empty if loading failed
+     */
+    private async load(url: string): Promise<PointOfInterest[]> {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const data: { points: PointOfInterest[] } = await response.json();
+            this.points = data.points;
+            this.points.forEach((point) => this.markerGroup.add(this.createMarker(point)));
+        } catch (error) {
+            console.error(`Failed to load points of interest ${url}:`, error);
+        }
+        return this.points;
+    }
+
+    /**
+     * Creates a marker with a pin and the name of a point.
+     * @param point The point of interest
+     * @return The marker sprite
+     */
+    private createMarker(point: PointOfInterest): Sprite {
+        const pixelRatio = 2;
+        const fontSize = 26 * pixelRatio;
+        const canvas = document.createElement("canvas");
+        const context = canvas.getContext("2d")!;
+        context.font = `600 ${fontSize}px -apple-system, BlinkMacSystemFont, sans-serif`;
+        const textWidth = context.measureText(point.name).width;
+
+        const padding = 14 * pixelRatio;
+        const boxHeight = fontSize + padding;
+        const pinHeight = 14 * pixelRatio;
+        canvas.width = Math.ceil(textWidth + padding * 2);
+        canvas.height = boxHeight + pinHeight;
+
+        context.fillStyle = "rgba(255, 255, 255, 0.95)";
+        context.beginPath();
+        context.roundRect(0, 0, canvas.width, boxHeight, boxHeight / 2);
+        context.moveTo(canvas.width / 2 - pinHeight * 0.6, boxHeight);
+        context.lineTo(canvas.width / 2, canvas.height);
+        context.lineTo(canvas.width / 2 + pinHeight * 0.6, boxHeight);
+        context.fill();
+
+        context.font = `600 ${fontSize}px -apple-system, BlinkMacSystemFont, sans-serif`;
+        context.fillStyle = "#1d1d1f";
+        context.textBaseline = "middle";
+        context.fillText(point.name, padding, boxHeight / 2);
+
+        const texture = new CanvasTexture(canvas);
+        texture.colorSpace = SRGBColorSpace;
+        const material = new SpriteMaterial({
+            map: texture,
+            sizeAttenuation: false,
+            depthTest: false,
+            depthWrite: false,
+            transparent: true,
+            fog: false
+        });
+
+        const marker = new Sprite(material);
+        marker.position.set(point.position.x, point.position.y, point.position.z);
+        marker.center.set(0.5, 0);
+        marker.scale.set(MARKER_HEIGHT * canvas.width / canvas.height, MARKER_HEIGHT, 1);
+        marker.renderOrder = 10;
+        marker.userData.skipCollision = true;
+        marker.name = point.id;
+        return marker;
+    }
+
+    /**
+     * Gets all points of interest once they are loaded.
+     * @return Promise that resolves to the points
+     */
+    public getPoints(): Promise<PointOfInterest[]> {
+        return this.loaded;
+    }
+
+    /**
+     * Shows or hides the markers.
+     * @param visible Whether the markers are shown
+     */
+    public setVisible(visible: boolean) {
+        this.markerGroup.visible = visible;
+    }
+
+    /**
+     * Checks if the markers are currently shown.
+     * @return True if visible, false if hidden
+     */
+    public isVisible(): boolean {
+        return this.markerGroup.visible;
+    }
+
+    /**
+     * Calculates the camera view for a point: its own view if the data file has one,
+     * otherwise a view from above and in front of the marker, coming from the given position.
+     * @param point The point of interest
+     * @param from The current camera position, which decides from which side the point is seen
+     * @param distance How far from the marker the camera stops, in world units
+     * @return Camera position, pitch and yaw
+     */
+    public getView(point: PointOfInterest, from: Vector3, distance: number = 80): { position: Vector3; pitch: number; yaw: number } {
+        if (point.camera) {
+            const { position, pitch, yaw } = point.camera;
+            return { position: new Vector3(position.x, position.y, position.z), pitch, yaw };
+        }
+
+        const target = new Vector3(point.position.x, point.position.y, point.position.z);
+        const approach = new Vector3(from.x - target.x, 0, from.z - target.z);
+        if (approach.lengthSq() < 1e-6) {
+            approach.set(0, 0, 1);
+        }
+        approach.normalize().multiplyScalar(distance);
+        const position = target.clone().add(approach);
+        position.y += distance * 0.4;
+
+        // Camera rotation order is YXZ and it looks down its negative z axis
+        const look = target.clone().sub(position).normalize();
+        return {
+            position,
+            pitch: Math.asin(look.y),
+            yaw: Math.atan2(-look.x, -look.z)
+        };
+    }
+}
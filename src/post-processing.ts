@@ -0,0 +1,273 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { SSAOPass } from 'three/examples/jsm/postprocessing/SSAOPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { LUTPass } from 'three/examples/jsm/postprocessing/LUTPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import type { Sun } from './ambient/sun';
+
+/**
+ * Screen effects that can be switched on and off independently.
+ */
+export type PostEffect = 'bloom' | 'ssao' | 'vignette';
+
+/**
+ * All switchable screen effects.
+ */
+export const postEffects: PostEffect[] = ['bloom', 'ssao', 'vignette'];
+
+/**
+ * Color grades applied to the final image. `engraving` imitates the inked prints of the historic slides.
+ */
+export type ColorGrade = 'none' | 'engraving' | 'sepia';
+
+/**
+ * All color grades.
+ */
+export const colorGrades: ColorGrade[] = ['none', 'engraving', 'sepia'];
+
+/**
+ * Number of samples along each axis of the color grading lookup tables.
+ */
+const LUT_SIZE = 32;
+
+/**
+ * Draws the scene through a chain of screen effects: ambient occlusion, bloom, tone mapping,
+ * a color grade and a vignette. When all effects are off the scene is drawn directly.
+ * Bloom gets stronger at night, so lanterns and the moon glow while the bright day sky does not.
+ */
+export class PostProcessing {
+    private renderer: THREE.WebGLRenderer;
+    private scene: THREE.Scene;
+    private camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    private renderPass: RenderPass;
+    private sun: Sun;
+    private composer: EffectComposer;
+    private ssaoPass: SSAOPass;
+    private bloomPass: UnrealBloomPass;
+    private lutPass: LUTPass;
+    private vignettePass: ShaderPass;
+    private colorGrade: ColorGrade = 'none';
+    private luts = new Map<ColorGrade, THREE.Data3DTexture>();
+
+    /**
+     * Creates the effect chain with bloom switched on and all other effects off.
+     * @param renderer The renderer that draws the frames
+     * @param scene The Three.js scene
+     * @param camera The camera the scene is seen through
+     * @param sun The sun whose height decides how strongly bright lights bloom
+     */
+    constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera, sun: Sun) {
+        this.renderer = renderer;
+        this.scene = scene;
+        this.camera = camera;
+        this.sun = sun;
+
+        const width = window.innerWidth;
+        const height = window.innerHeight;
+
+        // Render targets are not antialiased by the canvas, so they get their own multisampling.
+        // The composer takes the size of the target as the CSS size and applies the pixel ratio itself.
+        const samples = renderer.getContextAttributes()?.antialias ? 4 : 0;
+        const renderTarget = new THREE.WebGLRenderTarget(width, height, {
+            type: THREE.HalfFloatType,
+            samples
+        });
+        this.composer = new EffectComposer(renderer, renderTarget);
+
+        this.ssaoPass = new SSAOPass(scene, camera, width, height);
+        // Depth distances are relative to the camera range, which spans several kilometers
+        this.ssaoPass.kernelRadius = 6;
+        this.ssaoPass.minDistance = 0.000005;
+        this.ssaoPass.maxDistance = 0.002;
+        this.ssaoPass.enabled = false;
+
+        this.bloomPass = new UnrealBloomPass(new THREE.Vector2(width, height), 0.8, 0.4, 1.0);
+
+        this.lutPass = new LUTPass({ intensity: 1 });
+        this.lutPass.enabled = false;
+
+        this.vignettePass = new ShaderPass(VignetteShader);
+        this.vignettePass.uniforms.offset.value = 1.0;
+        this.vignettePass.uniforms.darkness.value = 1.2;
+        this.vignettePass.enabled = false;
+
+        // The grade and the vignette work on the tone mapped colors, so they come after the output pass
+        this.renderPass = new RenderPass(scene, camera);
+        this.composer.addPass(this.renderPass);
+        this.composer.addPass(this.ssaoPass);
+        this.composer.addPass(this.bloomPass);
+        this.composer.addPass(new OutputPass());
+        this.composer.addPass(this.lutPass);
+        this.composer.addPass(this.vignettePass);
+        // Scales the buffers and all passes to the pixel ratio of the renderer
+        this.composer.setSize(width, height);
+    }
+
+    /**
+     * Gets the pass that belongs to a switchable effect.
+     * @param effect The effect
+     * @return The pass of the effect
+     */
+    private getPass(effect: PostEffect): SSAOPass | UnrealBloomPass | ShaderPass {
+        switch (effect) {
+            case 'bloom':
+                return this.bloomPass;
+            case 'ssao':
+                return this.ssaoPass;
+            case 'vignette':
+                return this.vignettePass;
+        }
+    }
+
+    /**
+     * Switches a screen effect on or off.
+     * @param effect The effect to switch
+     * @param enabled Whether the effect is drawn
+     */
+    public setEffectEnabled(effect: PostEffect, enabled: boolean): void {
+        this.getPass(effect).enabled = enabled;
+    }
+
+    /**
+     * Checks whether a screen effect is switched on.
+     * @param effect The effect to check
+     * @return True if the effect is drawn
+     */
+    public isEffectEnabled(effect: PostEffect): boolean {
+        return this.getPass(effect).enabled;
+    }
+
+    /**
+     * Changes the color grade of the final image.
+     * @param grade The color grade, `none` to keep the original colors
+     */
+    public setColorGrade(grade: ColorGrade): void {
+        this.colorGrade = grade;
+        this.lutPass.enabled = grade !== 'none';
+        if (grade === 'none') return;
+
+        let lut = this.luts.get(grade);
+        if (!lut) {
+            lut = this.createLut(grade);
+            this.luts.set(grade, lut);
+        }
+        this.lutPass.lut = lut;
+    }
+
+    /**
+     * Gets the current color grade.
+     * @return The color grade
+     */
+    public getColorGrade(): ColorGrade {
+        return this.colorGrade;
+    }
+
+    /**
+     * Builds a 3D lookup table that maps every display color to its graded color.
+     * @param grade The color grade to build
+     * @return The lookup table as a 3D texture
+     */
+    private createLut(grade: Exclude<ColorGrade, 'none'>): THREE.Data3DTexture {
+        const data = new Uint8Array(LUT_SIZE * LUT_SIZE * LUT_SIZE * 4);
+        const color = new THREE.Color();
+        const ink = new THREE.Color(0.16, 0.12, 0.09);
+        const paper = new THREE.Color(0.93, 0.88, 0.76);
+
+        for (let b = 0; b < LUT_SIZE; b++) {
+            for (let g = 0; g < LUT_SIZE; g++) {
+                for (let r = 0; r < LUT_SIZE; r++) {
+                    color.setRGB(r / (LUT_SIZE - 1), g / (LUT_SIZE - 1), b / (LUT_SIZE - 1), THREE.LinearSRGBColorSpace);
+                    const luminance = 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+
+                    if (grade === 'engraving') {
+                        // Hard contrast between dark ink and aged paper, with a trace of the original hue
+                        const tone = THREE.MathUtils.smoothstep(luminance, 0.08, 0.85);
+                        const engraved = ink.clone().lerp(paper, tone);
+                        color.lerp(engraved, 0.9);
+                    } else {
+                        const sepia = new THREE.Color(
+                            0.393 * color.r + 0.769 * color.g + 0.189 * color.b,
+                            0.349 * color.r + 0.686 * color.g + 0.168 * color.b,
+                            0.272 * color.r + 0.534 * color.g + 0.131 * color.b
+                        );
+                        color.lerp(sepia, 0.85);
+                    }
+
+                    const index = (r + g * LUT_SIZE + b * LUT_SIZE * LUT_SIZE) * 4;
+                    data[index] = Math.round(THREE.MathUtils.clamp(color.r, 0, 1) * 255);
+                    data[index + 1] = Math.round(THREE.MathUtils.clamp(color.g, 0, 1) * 255);
+                    data[index + 2] = Math.round(THREE.MathUtils.clamp(color.b, 0, 1) * 255);
+                    data[index + 3] = 255;
+                }
+            }
+        }
+
+        const texture = new THREE.Data3DTexture(data, LUT_SIZE, LUT_SIZE, LUT_SIZE);
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        texture.wrapS = THREE.ClampToEdgeWrapping;
+        texture.wrapT = THREE.ClampToEdgeWrapping;
+        texture.wrapR = THREE.ClampToEdgeWrapping;
+        texture.unpackAlignment = 1;
+        texture.needsUpdate = true;
+        return texture;
+    }
+
+    /**
+     * Adapts the bloom to the time of day. Called every frame after the sun has been updated.
+     */
+    public update(): void {
+        if (!this.bloomPass.enabled) return;
+
+        const darkness = 1 - THREE.MathUtils.smoothstep(this.sun.getSolarInfo().elevation, -6, 4);
+        this.bloomPass.strength = THREE.MathUtils.lerp(0.15, 0.8, darkness);
+        this.bloomPass.threshold = THREE.MathUtils.lerp(4.0, 0.9, darkness);
+    }
+
+    /**
+     * Changes the camera the scene is seen through, e.g. to the orthographic camera of the plan view.
+     * @param camera The camera to draw the frames with
+     */
+    public setCamera(camera: THREE.PerspectiveCamera | THREE.OrthographicCamera): void {
+        this.camera = camera;
+        this.renderPass.camera = camera;
+    }
+
+    /**
+     * Draws a frame, through the effect chain if any effect is on and directly otherwise.
+     */
+    public render(): void {
+        // Ambient occlusion is tuned to the depth of the perspective camera, so the plan view goes without it
+        const ssaoEnabled = this.ssaoPass.enabled;
+        this.ssaoPass.enabled = ssaoEnabled && this.camera instanceof THREE.PerspectiveCamera;
+
+        const anyEffect = this.bloomPass.enabled || this.ssaoPass.enabled || this.vignettePass.enabled || this.lutPass.enabled;
+        if (anyEffect) {
+            this.composer.render();
+        } else {
+            this.renderer.render(this.scene, this.camera);
+        }
+        this.ssaoPass.enabled = ssaoEnabled;
+    }
+
+    /**
+     * Resizes all effect buffers, e.g. when the window size changes.
+     * @param width New width in CSS pixels
+     * @param height New height in CSS pixels
+     */
+    public setSize(width: number, height: number): void {
+        this.composer.setSize(width, height);
+    }
+
+    /**
+     * Matches the effect buffers to a new pixel ratio of the renderer.
+     * @param pixelRatio The pixel ratio of the renderer
+     */
+    public setPixelRatio(pixelRatio: number): void {
+        this.composer.setPixelRatio(pixelRatio);
+    }
+}
@@ -4,6 +4,9 @@ import { Sun } from './ambient/sun';
 import { Fog } from './ambient/fog';
 import { Clouds } from './ambient/clouds';
 import { Sky } from './ambient/sky';
+import { Moon } from './ambient/moon';
+import { NightSky } from './ambient/night-sky';
+import { Shadows } from './ambient/shadows';
 import { Churches } from './nodes/churches';
 import { CityWall } from './nodes/cityWall';
 import { Gardens } from './nodes/gardens';
@@ -11,11 +14,73 @@ import { Houses } from './nodes/houses';
 import { Terrain } from './nodes/terrain';
 import { Trees } from './nodes/trees';
 import { Lanterns } from './nodes/lanterns';
+import { PointsOfInterest } from './nodes/points-of-interest';
 import { Water } from './ambient/water';
 import { KeyboardControls } from './controls/keyboard-controls';
+import { GamepadControls } from './controls/gamepad-controls';
+import { TouchControls } from './controls/touch-controls';
+import { OrbitCamera, type CameraPose } from './controls/orbit-camera';
+import { PlanView } from './controls/plan-view';
 import { Clocks } from './nodes/clocks';
 import { CollisionDetector } from './controls/collision-detector';
+import { BuildingPicker } from './controls/building-picker';
 import { TourAnimator } from './tours/tour-animator';
+import { getReferenceDistance } from './util';
+import type { InputBindings } from './input-bindings';
+
+/**
+ * How the camera is steered: walking or flying in first person, rotating around an inspected point,
+ * or looking straight down on the town like on a map.
+ */
+export type CameraMode = 'firstPerson' | 'orbit' | 'plan';
+
+/**
+ * All camera modes in the order they are offered in the settings panel.
+ */
+export const cameraModes: CameraMode[] = ['firstPerson', 'orbit', 'plan'];
+
+/**
+ * How long a click on the scene waits for a second click before locking the pointer, in milliseconds.
+ * A double click inspects the building under the pointer instead.
+ */
+const DOUBLE_CLICK_DELAY = 250;
+
+/**
+ * How far ahead of the camera the orbit camera rotates when no building is in the center of the screen.
+ */
+const ORBIT_FALLBACK_DISTANCE = 100;
+
+/**
+ * A plain JSON snapshot of everything that defines the current view.
+ * Covers the camera pose and all adjustable ambient and lighting settings, so it can be
+ * stored, compared, sent over the network or turned into tour steps without losing information.
+ */
+export interface SceneState {
+    camera: {
+        position: { x: number; y: number; z: number };
+        rotation: { pitch: number; yaw: number };
+        mode: CameraMode;
+        target: { x: number; y: number; z: number } | null; // point the orbit camera rotates around or the plan view is centered on, null in first person
+    };
+    sun: {
+        dateTime: string | null; // ISO 8601, null = real time
+        latitude: number;
+        longitude: number;
+        timezone: number;
+    };
+    fog: {
+        density: number;
+    };
+    clouds: {
+        speed: number;
+        amount: number;
+    };
+    lanterns: {
+        warmth: number;
+        intensity: number;
+        enabled: boolean;
+    };
+}
 
 /**
  * Manages the main 3D scene and all its components.
@@ -26,16 +91,30 @@ export class Scene {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private renderer: THREE.WebGLRenderer;
+    private inputBindings: InputBindings;
     private controls!: PointerLockControls;
     private keyboardControls!: KeyboardControls;
+    private gamepadControls!: GamepadControls;
+    private touchControls: TouchControls | null = null;
+    private orbitCamera!: OrbitCamera;
+    private planView!: PlanView;
+    private cameraMode: CameraMode = 'firstPerson';
+    private firstPersonPose: CameraPose | null = null;
+    private blocker: HTMLElement | null = null;
+    private buildingPicker!: BuildingPicker;
     private collisionDetector!: CollisionDetector;
 
     private tourAnimator: TourAnimator | null = null;
+    private onStateApplyCallback?: (state: SceneState) => void;
+    private onCameraModeChangeCallback?: (mode: CameraMode) => void;
 
     // Ambient
     private sun!: Sun;
+    private moon!: Moon;
     private fog!: Fog;
     private sky!: Sky;
+    private nightSky!: NightSky;
+    private shadows!: Shadows;
     private clouds!: Clouds;
     private water!: Water;
 
@@ -48,17 +127,20 @@ export class Scene {
     private cityWall!: CityWall
     private lanterns!: Lanterns
     private clocks!: Clocks
+    private pointsOfInterest!: PointsOfInterest
 
     /**
      * Creates a new scene manager with all necessary components.
      * @param scene The Three.js scene object that holds all 3D objects
      * @param camera The perspective camera used to view the scene
      * @param renderer The WebGL renderer that draws everything to the screen
+     * @param inputBindings The key bindings used by the keyboard controls
      */
-    constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer) {
+    constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer, inputBindings: InputBindings) {
         this.scene = scene;
         this.camera = camera;
         this.renderer = renderer;
+        this.inputBindings = inputBindings;
         this.setup()
     }
 
@@ -73,9 +155,12 @@ export class Scene {
 
         // Create ambient
         this.sun = new Sun(this.scene)
+        this.moon = new Moon(this.scene, this.sun, this.camera)
+        this.shadows = new Shadows(this.scene, this.camera, this.renderer, this.sun)
         this.sky = new Sky(this.scene, this.sun)
         this.fog = new Fog(this.scene, 0xcccccc, 0.0)
         this.clouds = new Clouds(this.scene, this.camera)
+        this.nightSky = new NightSky(this.scene, this.sun, this.moon, this.clouds, this.camera)
         this.water = new Water(this.scene, this.renderer, this.camera, this.sun.getLight())
 
         // Initialize all nodes
@@ -87,12 +172,32 @@ export class Scene {
         this.gardens = new Gardens(this.scene)
         this.lanterns = new Lanterns(this.scene)
         this.clocks = new Clocks(this.scene)
+        this.pointsOfInterest = new PointsOfInterest(this.scene)
+
+        const shadowNodes = [this.terrain, this.trees, this.cityWall, this.churches, this.houses];
+        shadowNodes.forEach((node) => {
+            node.getGltf().then((gltf) => this.shadows.addObject(gltf.scene, true, true));
+        });
+
+        this.buildingPicker = new BuildingPicker(this.scene, this.camera, this.controls);
+        const pickableNodes = [this.houses, this.churches, this.cityWall, this.gardens];
+        pickableNodes.forEach((node) => {
+            node.getGltf().then((gltf) => this.buildingPicker.addObject(gltf.scene));
+        });
+        if (TouchControls.isNeeded()) {
+            this.touchControls = new TouchControls(this.camera, this.keyboardControls, this.buildingPicker, this.renderer.domElement);
+        }
+
+        const collisionNodes = [this.terrain, this.trees, this.cityWall, this.churches, this.houses, this.gardens];
+        collisionNodes.forEach((node) => {
+            node.getGltf().then((gltf) => this.collisionDetector.addObject(gltf.scene));
+        });
     }
 
 
     /**
-     * Positions the camera at its starting location and configures its rotation order.
-     * Sets the camera above and slightly behind the origin point.
+     * Positions the camera at its default starting location and configures its rotation order.
+     * Sets the camera above and slightly behind the origin point. A shared link may override this pose on startup.
      */
     private setupCamera() {
         this.camera.rotation.order = 'YXZ';
@@ -101,26 +206,49 @@ export class Scene {
     }
 
     /**
-     * Sets up first-person camera controls using pointer lock.
+     * Sets up first-person camera controls using pointer lock, the orbit camera for inspecting buildings and the plan view.
      * Enables mouse-look camera movement and keyboard-based player movement with collision detection.
+     * Touch screens, which cannot lock the pointer, get the touch controls instead once the building picker exists.
+     * Double-clicking a building switches to the orbit camera, Escape switches back.
      */
     private setupPointerLockControls() {
         this.controls = new PointerLockControls(this.camera, document.body);
         this.scene.add(this.controls.object);
         const blocker = document.getElementById('blocker');
-        if (blocker) {
-            blocker.addEventListener('click', () => {
-                blocker.style.display = 'none';
-                this.controls.lock();
+        this.blocker = blocker;
+        if (blocker && TouchControls.isNeeded()) {
+            // The pointer cannot be locked here, the touch controls take the gestures on the canvas instead
+            blocker.style.display = 'none';
+        } else if (blocker) {
+            let lockTimeout: number | undefined;
+            blocker.addEventListener('click', (e) => {
+                window.clearTimeout(lockTimeout);
+                if (e.detail > 1) return;
+                lockTimeout = window.setTimeout(() => {
+                    blocker.style.display = 'none';
+                    this.controls.lock();
+                }, DOUBLE_CLICK_DELAY);
             });
+            blocker.addEventListener('dblclick', (e) => this.inspectAt(e.clientX, e.clientY));
         }
         this.controls.addEventListener('unlock', () => {
-            if (blocker) blocker.style.display = 'block';
+            if (blocker && this.cameraMode === 'firstPerson') blocker.style.display = 'block';
         });
+
+        // The canvas only gets clicks while orbiting or on touch screens, the blocker covers it otherwise
+        this.orbitCamera = new OrbitCamera(this.camera, this.renderer.domElement);
+        this.planView = new PlanView(this.scene, this.renderer.domElement);
+        this.renderer.domElement.addEventListener('dblclick', (e) => this.inspectAt(e.clientX, e.clientY));
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.cameraMode !== 'firstPerson') {
+                this.setCameraMode('firstPerson');
+            }
+        });
+
+        this.keyboardControls = new KeyboardControls(this.controls, this.inputBindings);
+        this.gamepadControls = new GamepadControls(this.camera, this.keyboardControls);
         
-        this.keyboardControls = new KeyboardControls(this.controls);
-        
-        this.collisionDetector = new CollisionDetector(this.scene);
+        this.collisionDetector = new CollisionDetector();
         this.keyboardControls.setCollisionDetector(this.collisionDetector);
     }
 
@@ -132,6 +260,22 @@ export class Scene {
         return this.sun;
     }
 
+    /**
+     * Gets the moon that shows the lunar phase and adds moonlight at night.
+     * @return The moon instance
+     */
+    public getMoon(): Moon {
+        return this.moon;
+    }
+
+    /**
+     * Gets the shadow system that casts sun shadows over the town.
+     * @return The shadows instance
+     */
+    public getShadows(): Shadows {
+        return this.shadows;
+    }
+
     /**
      * Gets the fog controller that manages scene fog density and color.
      * @return The fog instance
@@ -180,6 +324,201 @@ export class Scene {
         return this.controls;
     }
 
+    /**
+     * Gets the keyboard controls that move the player by flying or walking.
+     * @return The keyboard controls instance
+     */
+    public getKeyboardControls(): KeyboardControls {
+        return this.keyboardControls;
+    }
+
+    /**
+     * Gets the gamepad controls for navigating with a game controller.
+     * @return The gamepad controls instance
+     */
+    public getGamepadControls(): GamepadControls {
+        return this.gamepadControls;
+    }
+
+    /**
+     * Switches between the first-person controls, the orbit camera and the plan view.
+     * Leaving first person remembers where the visitor was, coming back returns there.
+     * @param mode The camera mode to use
+     * @param target The point to rotate around in orbit mode, defaulting to the building in the center of the screen,
+     *               or the center of the plan view, defaulting to the camera position
+     * @param smooth True to move the camera smoothly, false to switch at once, e.g. when a tour takes over
+     */
+    public setCameraMode(mode: CameraMode, target?: THREE.Vector3, smooth: boolean = true): void {
+        const previous = this.cameraMode;
+        if (previous === 'firstPerson' && mode !== 'firstPerson') {
+            this.firstPersonPose = { position: this.camera.position.clone(), quaternion: this.camera.quaternion.clone() };
+            this.controls.unlock();
+            this.setFirstPersonEnabled(false);
+        }
+        if (previous === 'plan' && mode !== 'plan') {
+            this.planView.stop();
+            this.buildingPicker.setCamera(this.camera);
+        }
+        if (previous === 'orbit' && mode !== 'orbit') {
+            this.orbitCamera.stop(mode === 'firstPerson' && smooth ? this.firstPersonPose : null);
+        }
+
+        if (mode === 'orbit') {
+            this.orbitCamera.start(target ?? this.findOrbitTarget(), smooth);
+        } else if (mode === 'plan') {
+            this.planView.start(target ?? this.camera.position);
+            this.buildingPicker.setCamera(this.planView.getCamera());
+        } else if (previous !== 'firstPerson') {
+            if (previous === 'plan' && this.firstPersonPose) {
+                // The plan view parks the camera above the map, so it is put back where the visitor was
+                this.camera.position.copy(this.firstPersonPose.position);
+                this.camera.quaternion.copy(this.firstPersonPose.quaternion);
+            } else if (!smooth) {
+                this.camera.rotation.set(this.camera.rotation.x, this.camera.rotation.y, 0);
+            }
+            this.firstPersonPose = null;
+            this.setFirstPersonEnabled(true);
+        }
+
+        if (mode !== this.cameraMode) {
+            this.cameraMode = mode;
+            if (this.onCameraModeChangeCallback) {
+                this.onCameraModeChangeCallback(mode);
+            }
+        }
+    }
+
+    /**
+     * Gets the point the orbit camera rotates around or the plan view is centered on as plain coordinates.
+     * @return The point, or null in first person
+     */
+    private getCameraTarget(): { x: number; y: number; z: number } | null {
+        if (this.cameraMode === 'firstPerson') return null;
+        const target = this.cameraMode === 'orbit' ? this.orbitCamera.getTarget() : this.planView.getCenter();
+        return { x: target.x, y: target.y, z: target.z };
+    }
+
+    /**
+     * Gets the camera the scene is currently seen through: the orthographic camera of the plan view,
+     * or the perspective camera in all other modes.
+     * @return The active camera
+     */
+    public getActiveCamera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+        return this.cameraMode === 'plan' ? this.planView.getCamera() : this.camera;
+    }
+
+    /**
+     * Gets how the camera is currently steered.
+     * @return The active camera mode
+     */
+    public getCameraMode(): CameraMode {
+        return this.cameraMode;
+    }
+
+    /**
+     * Registers a function to be called when the camera mode changes, e.g. by a double click or a tour.
+     * @param callback Function that receives the new camera mode
+     */
+    public onCameraModeChange(callback: (mode: CameraMode) => void): void {
+        this.onCameraModeChangeCallback = callback;
+    }
+
+    /**
+     * Turns the first-person input on or off. While orbiting or in the plan view, the canvas takes the mouse and touch input
+     * and the blocker, which locks the pointer when clicked, is hidden.
+     * @param enabled Whether the first-person controls are used
+     */
+    private setFirstPersonEnabled(enabled: boolean): void {
+        this.gamepadControls.setEnabled(enabled);
+        if (this.touchControls) {
+            this.touchControls.setEnabled(enabled);
+        } else if (this.blocker) {
+            this.blocker.style.display = enabled ? 'block' : 'none';
+        }
+    }
+
+    /**
+     * Starts inspecting the building under a point on the screen with the orbit camera.
+     * @param clientX Horizontal position on the screen in pixels
+     * @param clientY Vertical position on the screen in pixels
+     */
+    private inspectAt(clientX: number, clientY: number): void {
+        const picked = this.buildingPicker.pick(new THREE.Vector2(
+            (clientX / window.innerWidth) * 2 - 1,
+            -(clientY / window.innerHeight) * 2 + 1
+        ));
+        if (picked) {
+            this.setCameraMode('orbit', picked.point);
+        }
+    }
+
+    /**
+     * Finds the point the orbit camera rotates around when none is given:
+     * the building in the center of the screen, or a point straight ahead.
+     * @return The point to rotate around
+     */
+    private findOrbitTarget(): THREE.Vector3 {
+        const picked = this.buildingPicker.pick(new THREE.Vector2(0, 0));
+        if (picked) {
+            return picked.point;
+        }
+        const direction = this.camera.getWorldDirection(new THREE.Vector3());
+        return this.camera.position.clone().addScaledVector(direction, ORBIT_FALLBACK_DISTANCE);
+    }
+
+    /**
+     * Gets the plan view, e.g. to lay the historic map over it.
+     * @return The plan view instance
+     */
+    public getPlanView(): PlanView {
+        return this.planView;
+    }
+
+    /**
+     * Gets the touch controls used on tablets and phones.
+     * @return The touch controls, or null if the pointer can be locked and they are not used
+     */
+    public getTouchControls(): TouchControls | null {
+        return this.touchControls;
+    }
+
+    /**
+     * Moves the camera to a new spot on the ground plan while keeping its height and view direction.
+     * The camera is lifted to eye height if the ground below the new spot is higher than the camera.
+     * While walking, the player then falls down to the ground.
+     * @param x Scene x coordinate (west)
+     * @param z Scene z coordinate (south)
+     */
+    public teleportTo(x: number, z: number): void {
+        this.setCameraMode('firstPerson', undefined, false);
+        const position = this.camera.position;
+        // Search down from high above, so roofs and hills above the camera are found too
+        const top = getReferenceDistance();
+        const groundHeight = this.collisionDetector.getGroundHeight(new THREE.Vector3(x, top, z), top * 2);
+
+        position.x = x;
+        position.z = z;
+        if (groundHeight !== null) {
+            position.y = Math.max(position.y, groundHeight + this.keyboardControls.getEyeHeight());
+        }
+    }
+
+    /**
+     * Gets the labelled markers of the points of interest.
+     * @return The points of interest instance
+     */
+    public getPointsOfInterest(): PointsOfInterest {
+        return this.pointsOfInterest;
+    }
+
+    /**
+     * Gets the picker that finds and highlights buildings under the pointer.
+     * @return The building picker instance
+     */
+    public getBuildingPicker(): BuildingPicker {
+        return this.buildingPicker;
+    }
+
     /**
      * Sets the tour animator that handles automated camera tours.
      * @param tourAnimator The tour animator instance to use for guided tours
@@ -188,13 +527,129 @@ export class Scene {
         this.tourAnimator = tourAnimator;
     }
 
+    /**
+     * Captures the current camera pose and scene settings as a serializable snapshot.
+     * @return The current scene state
+     */
+    public getState(): SceneState {
+        const location = this.sun.getLocation();
+        const dateTime = this.sun.getCustomDateTime();
+        // The camera is parked above the map in the plan view, the pose to return to is kept instead
+        const pose = this.cameraMode === 'plan' && this.firstPersonPose
+            ? this.firstPersonPose
+            : { position: this.camera.position, quaternion: this.camera.quaternion };
+        const rotation = new THREE.Euler().setFromQuaternion(pose.quaternion, 'YXZ');
+        return {
+            camera: {
+                position: {
+                    x: pose.position.x,
+                    y: pose.position.y,
+                    z: pose.position.z
+                },
+                rotation: {
+                    pitch: rotation.x,
+                    yaw: rotation.y
+                },
+                mode: this.cameraMode,
+                target: this.getCameraTarget()
+            },
+            sun: {
+                dateTime: dateTime ? dateTime.toISOString() : null,
+                latitude: location.latitude,
+                longitude: location.longitude,
+                timezone: location.timezone
+            },
+            fog: {
+                density: this.fog.getDensity()
+            },
+            clouds: {
+                speed: this.clouds.getMovementSpeed(),
+                amount: this.clouds.getCloudAmount()
+            },
+            lanterns: {
+                warmth: this.lanterns.getWarmth(),
+                intensity: this.lanterns.getIntensity(),
+                enabled: this.lanterns.getEnabled()
+            }
+        };
+    }
+
+    /**
+     * Restores the camera pose and scene settings from a snapshot.
+     * Notifies the registered state callback afterwards so UI controls can follow.
+     * @param state The scene state to apply
+     */
+    public applyState(state: SceneState): void {
+        const { position, rotation, mode, target } = state.camera;
+        this.setCameraMode('firstPerson', undefined, false);
+        this.camera.rotation.order = 'YXZ';
+        this.camera.position.set(position.x, position.y, position.z);
+        this.camera.rotation.set(rotation.pitch, rotation.yaw, 0);
+        if (mode !== 'firstPerson' && target) {
+            this.setCameraMode(mode, new THREE.Vector3(target.x, target.y, target.z), false);
+        }
+
+        const location = this.sun.getLocation();
+        if (state.sun.latitude !== location.latitude ||
+            state.sun.longitude !== location.longitude ||
+            state.sun.timezone !== location.timezone) {
+            this.sun.setLocation(state.sun.latitude, state.sun.longitude, state.sun.timezone);
+        }
+        if (state.sun.dateTime) {
+            const dateTime = new Date(state.sun.dateTime);
+            this.sun.setCustomDateTime(dateTime);
+            this.clocks.setCustomDateTime(dateTime);
+        } else {
+            this.sun.resetToCurrentTime();
+            this.clocks.setCustomDateTime(new Date());
+        }
+
+        this.fog.setDensity(state.fog.density);
+        this.clouds.setMovementSpeed(state.clouds.speed);
+        this.clouds.setCloudAmount(state.clouds.amount);
+        this.lanterns.setWarmth(state.lanterns.warmth);
+        this.lanterns.setIntensity(state.lanterns.intensity);
+        this.lanterns.setEnabled(state.lanterns.enabled);
+
+        if (this.onStateApplyCallback) {
+            this.onStateApplyCallback(state);
+        }
+    }
+
+    /**
+     * Registers a function to be called after a scene state has been applied.
+     * @param callback Function that receives the applied state
+     */
+    public onStateApply(callback: (state: SceneState) => void): void {
+        this.onStateApplyCallback = callback;
+    }
+
     /**
      * Updates all animated elements in the scene for the current frame.
-     * This includes the sun position, clouds, water, clocks, and all 3D objects.
+     * This includes the sun and moon positions, stars, clouds, water, clocks, and all 3D objects.
      * Called every frame to keep the scene moving and responsive.
      */
     public animate() {
+        if (this.tourAnimator?.isAnimating()) {
+            // Tours and flights to places steer the camera themselves, also while the orbit camera still swings back
+            if (this.cameraMode !== 'firstPerson') {
+                this.setCameraMode('firstPerson', undefined, false);
+            }
+            this.orbitCamera.cancelTransition();
+        }
+        this.gamepadControls.update();
+        if (this.touchControls) {
+            this.touchControls.update();
+        }
         this.keyboardControls.update();
+        this.orbitCamera.update();
+        if (this.cameraMode === 'plan') {
+            this.planView.update();
+            // Sky, clouds and shadows follow the perspective camera, so it is kept right above the plan view
+            const planCamera = this.planView.getCamera();
+            this.camera.position.copy(planCamera.position);
+            this.camera.quaternion.copy(planCamera.quaternion);
+        }
         let solarInfo: { azimuth: number, elevation: number, isDay: boolean } | null = null;
         if (this.sun) {
             this.sun.update();
@@ -203,6 +658,15 @@ export class Scene {
                 this.fog.updateColorForSunElevation(solarInfo.elevation);
             }
         }
+        if (this.shadows) {
+            this.shadows.update();
+        }
+        if (this.moon) {
+            this.moon.update();
+        }
+        if (this.nightSky) {
+            this.nightSky.update();
+        }
         if (solarInfo && this.sun && this.clouds) {
             this.clouds.updateLightingForSun(solarInfo.elevation, this.sun.getSunMesh().position);
         }
@@ -243,5 +707,8 @@ export class Scene {
         if (this.trees) {
             this.terrain.animate();
         }
+        if (this.buildingPicker) {
+            this.buildingPicker.update();
+        }
     }
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 /**
  * Manages a horizontal slideshow for presenting information.
- * Allows navigation between slides using keyboard arrows or buttons, with smooth animations.
+ * Allows navigation between slides using buttons or the slide keys of the input bindings, with smooth animations.
  */
 export class Slideshow {
     private slideshow: HTMLElement;
@@ -45,29 +45,11 @@ export class Slideshow {
         this.calculateAndSetDimensions();
 
         this.slideshow.setAttribute('data-slide', this.currentSlide.toString());
-        document.addEventListener('keydown', this.handleKeyDown.bind(this));
         window.addEventListener('resize', this.handleResize.bind(this));
 
         this.updateSlidePosition();
     }
 
-    /**
-     * Handles keyboard arrow presses for slide navigation.
-     * @param event The keyboard event containing the pressed key
-     */
-    private handleKeyDown(event: KeyboardEvent): void {
-        switch (event.key) {
-            case 'ArrowLeft':
-                event.preventDefault();
-                this.previousSlide();
-                break;
-            case 'ArrowRight':
-                event.preventDefault();
-                this.nextSlide();
-                break;
-        }
-    }
-
     /**
      * Calculates and applies the correct width for the slideshow and each slide based on window size.
      */
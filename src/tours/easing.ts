@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { type TourEasing, type TourParameter, type TourProperty } from './tour';
+
+/**
+ * An easing function mapping linear progress from 0 to 1 onto eased progress.
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * The built-in easing curves. All except `linear` ease in and out.
+ */
+const namedEasings: Record<Exclude<TourEasing, number[]>, EasingFunction> = {
+    linear: (t) => t,
+    quad: (t) => t < 0.5
+        ? 2 * t * t
+        : 1 - Math.pow(-2 * t + 2, 2) / 2,
+    cubic: (t) => t < 0.5
+        ? 4 * t * t * t
+        : 1 - Math.pow(-2 * t + 2, 3) / 2,
+    sine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+    expo: (t) => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return t < 0.5
+            ? Math.pow(2, 20 * t - 10) / 2
+            : (2 - Math.pow(2, -20 * t + 10)) / 2;
+    }
+};
+
+/**
+ * Names of the built-in easing curves, e.g. for validation or selection lists.
+ */
+export const easingNames = Object.keys(namedEasings) as Exclude<TourEasing, number[]>[];
+
+/**
+ * Creates an easing function from cubic bezier control points, matching CSS `cubic-bezier()`.
+ * The curve starts at (0, 0) and ends at (1, 1); x is time and y is progress.
+ * @param x1 X of the first control point, between 0 and 1
+ * @param y1 Y of the first control point
+ * @param x2 X of the second control point, between 0 and 1
+ * @param y2 Y of the second control point
+ * @return The easing function
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+    const cx = 3 * x1;
+    const bx = 3 * (x2 - x1) - cx;
+    const ax = 1 - cx - bx;
+    const cy = 3 * y1;
+    const by = 3 * (y2 - y1) - cy;
+    const ay = 1 - cy - by;
+
+    const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+    const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+    const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+    /**
+     * Finds the curve parameter for a time value, first with Newton's method and bisection as a fallback.
+     */
+    const solveX = (x: number): number => {
+        let s = x;
+        for (let i = 0; i < 8; i++) {
+            const error = sampleX(s) - x;
+            if (Math.abs(error) < 1e-6) return s;
+            const derivative = sampleDerivativeX(s);
+            if (Math.abs(derivative) < 1e-6) break;
+            s -= error / derivative;
+        }
+
+        let low = 0;
+        let high = 1;
+        s = x;
+        while (high - low > 1e-6) {
+            if (sampleX(s) < x) {
+                low = s;
+            } else {
+                high = s;
+            }
+            s = (low + high) / 2;
+        }
+        return s;
+    };
+
+    return (t: number) => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return sampleY(solveX(t));
+    };
+}
+
+/**
+ * Gets the easing function for a named or custom easing curve.
+ * @param easing The easing curve
+ * @return The easing function
+ */
+export function getEasing(easing: TourEasing): EasingFunction {
+    if (Array.isArray(easing)) {
+        return cubicBezier(easing[0], easing[1], easing[2], easing[3]);
+    }
+    return namedEasings[easing];
+}
+
+/**
+ * Calculates the eased progress of one property within a tour step.
+ * Applies the property's timing window, so a property can start later or finish earlier than the step,
+ * and then the property's easing, falling back to the easing of the step.
+ * @param parameter The tour step
+ * @param property The property being animated
+ * @param progress Time progress of the whole step from 0 to 1
+ * @param defaultEasing Easing used when neither the property nor the step names one
+ * @return Eased progress of the property from 0 to 1
+ */
+export function getPropertyProgress(
+    parameter: TourParameter,
+    property: TourProperty,
+    progress: number,
+    defaultEasing: TourEasing = 'quad'
+): number {
+    const timing = parameter.timing?.[property];
+    const start = timing?.start ?? 0;
+    const end = timing?.end ?? 1;
+
+    let localProgress: number;
+    if (end > start) {
+        localProgress = THREE.MathUtils.clamp((progress - start) / (end - start), 0, 1);
+    } else {
+        localProgress = progress >= start ? 1 : 0;
+    }
+
+    return getEasing(timing?.easing ?? parameter.easing ?? defaultEasing)(localProgress);
+}
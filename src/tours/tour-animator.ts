@@ -1,29 +1,38 @@
 import * as THREE from 'three';
-import { type TourParameter } from './tour';
+import { type TourParameter, type TourProperty } from './tour';
 import { Scene } from '../scene';
+import type { Sun } from '../ambient/sun';
 import { FogSlider } from '../controls/fog-slider';
 import { CloudControl } from '../controls/cloud-control';
 import { LanternControl } from '../controls/lantern-control';
 import { TimePicker } from '../controls/time-picker';
+import { TourPath } from './tour-path';
+import { getPropertyProgress } from './easing';
 
 /**
  * Handles animating tour parameters with smooth transitions.
  * Animates camera position, rotation, and all scene settings between tour steps using easing functions.
+ * Each step can choose its easing curve and let single properties start later or finish earlier than the step.
  * Each animation runs until complete, then resolves a promise to allow chaining tour steps.
+ * Animations can be paused, resumed and cancelled; a cancelled animation resolves its promise with false.
  */
 export class TourAnimator {
     private isAnimatingTour: boolean = false;
     private wasPointerLocked: boolean = false;
 
     private startTime: number = 0;
+    private pausedAt: number | null = null;
     private duration: number = 0;
     private parameter: TourParameter | null = null;
+    private path: TourPath | null = null;
+    private pathU: number = 0;
     private camera: THREE.PerspectiveCamera | null = null;
     private customScene: Scene | null = null;
+    private timePicker: TimePicker | null = null;
     private fogSlider: FogSlider | null = null;
     private cloudControl: CloudControl | null = null;
     private lanternControl: LanternControl | null = null;
-    private resolveCallback: (() => void) | null = null;
+    private resolveCallback: ((completed: boolean) => void) | null = null;
 
     private startPosition: THREE.Vector3 = new THREE.Vector3();
     private startRotation: { pitch: number; yaw: number } = { pitch: 0, yaw: 0 };
@@ -90,7 +99,7 @@ export class TourAnimator {
      * @param fogSlider Fog slider control for updating fog UI
      * @param cloudControl Cloud control for updating cloud UI
      * @param lanternControl Lantern control for updating lantern UI
-     * @return Promise that resolves when animation completes
+     * @return Promise that resolves with true when the animation completes, or false if it was cancelled
      */
     public animateTourParameter(
         parameter: TourParameter,
@@ -100,15 +109,15 @@ export class TourAnimator {
         fogSlider: FogSlider,
         cloudControl: CloudControl,
         lanternControl: LanternControl
-    ): Promise<void> {
+    ): Promise<boolean> {
         return new Promise((resolve) => {
-            if (this.isAnimatingTour && this.resolveCallback) {
-                this.resolveCallback();
-            }
+            this.cancel();
 
             this.parameter = parameter;
+            this.path = null;
             this.camera = camera;
             this.customScene = customScene;
+            this.timePicker = timePicker;
             this.fogSlider = fogSlider;
             this.cloudControl = cloudControl;
             this.lanternControl = lanternControl;
@@ -117,6 +126,7 @@ export class TourAnimator {
             this.isAnimatingTour = true;
             this.duration = parameter.duration;
             this.startTime = performance.now();
+            this.pausedAt = null;
 
             const controls = customScene.getControls();
             this.wasPointerLocked = controls.isLocked;
@@ -126,24 +136,23 @@ export class TourAnimator {
 
             camera.up.set(0, 1, 0);
             camera.rotation.order = 'YXZ';
-            this.startPosition.copy(camera.position);
-            this.startRotation = {
-                pitch: camera.rotation.x,
-                yaw: camera.rotation.y
-            };
-
-            this.startCloudSpeed = cloudControl.getSpeed();
-            this.startCloudAmount = cloudControl.getAmount();
-            this.startFogValue = fogSlider.getDensity();
-            this.startWarmth = lanternControl.getWarmth();
-            this.startIntensity = lanternControl.getIntensity();
-
-            const currentTime = timePicker.getTime();
-            const currentHours = Math.floor(currentTime);
-            const currentMinutes = Math.floor((currentTime - currentHours) * 60);
-            const now = new Date();
-            this.startDateTime = new Date(now.getFullYear(), now.getMonth(), now.getDate(), currentHours, currentMinutes);
 
+            const state = customScene.getState();
+            this.startPosition.set(
+                state.camera.position.x,
+                state.camera.position.y,
+                state.camera.position.z
+            );
+            this.startRotation = { ...state.camera.rotation };
+            this.startCloudSpeed = state.clouds.speed;
+            this.startCloudAmount = state.clouds.amount;
+            this.startFogValue = state.fog.density;
+            this.startWarmth = state.lanterns.warmth;
+            this.startIntensity = state.lanterns.intensity;
+            this.startDateTime = state.sun.dateTime ? new Date(state.sun.dateTime) : new Date();
+
+            parameter = this.resolveSolarEvent(parameter, customScene.getSun(), this.startDateTime);
+            this.parameter = parameter;
             this.targetPosition = parameter.position || this.startPosition.clone();
             this.targetRotation = parameter.cameraRotation || this.startRotation;
             this.targetCloudSpeed = parameter.cloudMovementSpeed !== undefined ? parameter.cloudMovementSpeed : this.startCloudSpeed;
@@ -155,12 +164,137 @@ export class TourAnimator {
         });
     }
 
+    /**
+     * Starts flying along a continuous spline through all given tour steps.
+     * The camera moves at constant speed and does not stop at the individual steps.
+     * The path starts at the current camera position, so the first step should already have been reached.
+     * @param parameters The tour steps to fly through
+     * @param camera The camera to move
+     * @param customScene The scene manager
+     * @param timePicker Time picker control for updating time display
+     * @param fogSlider Fog slider control for updating fog UI
+     * @param cloudControl Cloud control for updating cloud UI
+     * @param lanternControl Lantern control for updating lantern UI
+     * @return Promise that resolves with true when the camera reaches the last step, or false if it was cancelled
+     */
+    public animateTourPath(
+        parameters: TourParameter[],
+        camera: THREE.PerspectiveCamera,
+        customScene: Scene,
+        timePicker: TimePicker,
+        fogSlider: FogSlider,
+        cloudControl: CloudControl,
+        lanternControl: LanternControl
+    ): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.cancel();
+
+            this.parameter = null;
+            this.camera = camera;
+            this.customScene = customScene;
+            this.timePicker = timePicker;
+            this.fogSlider = fogSlider;
+            this.cloudControl = cloudControl;
+            this.lanternControl = lanternControl;
+            this.resolveCallback = resolve;
+
+            const controls = customScene.getControls();
+            if (controls.isLocked) {
+                controls.unlock();
+            }
+
+            camera.up.set(0, 1, 0);
+            camera.rotation.order = 'YXZ';
+
+            const state = customScene.getState();
+            let reference = state.sun.dateTime ? new Date(state.sun.dateTime) : new Date();
+            const resolved = parameters.map((parameter) => {
+                const result = this.resolveSolarEvent(parameter, customScene.getSun(), reference);
+                reference = result.dateTime ?? reference;
+                return result;
+            });
+
+            this.path = new TourPath(resolved, state);
+            this.pathU = 0;
+            this.duration = parameters.slice(1).reduce((sum, parameter) => sum + parameter.duration, 0);
+            this.startTime = performance.now();
+            this.pausedAt = null;
+            this.isAnimatingTour = true;
+        });
+    }
+
+    /**
+     * Replaces the solar event of a tour step with the actual time of that event.
+     * The event is looked up on the day of the step's own date, or else on the day of the reference date.
+     * @param parameter The tour step
+     * @param sun The sun that knows the location of the scene
+     * @param reference The date to use when the step has no date of its own
+     * @return The step with its date set to the event, or the step itself if it has no event or the event does not happen
+     */
+    private resolveSolarEvent(parameter: TourParameter, sun: Sun, reference: Date): TourParameter {
+        if (!parameter.solarEvent) {
+            return parameter;
+        }
+        const eventTime = sun.getSolarEventTime(parameter.solarEvent, parameter.dateTime ?? reference);
+        if (!eventTime) {
+            console.warn(`Solar event "${parameter.solarEvent}" does not happen on this day`);
+            return parameter;
+        }
+        return { ...parameter, dateTime: eventTime };
+    }
+
+    /**
+     * Updates the current spline path animation for this frame.
+     * Samples the path at the arc length reached after the elapsed time and applies all values.
+     */
+    private animatePath(): void {
+        if (!this.path || !this.camera || !this.customScene) {
+            return;
+        }
+
+        const elapsed = performance.now() - this.startTime;
+        const progress = this.duration > 0 ? Math.min(elapsed / this.duration, 1) : 1;
+        this.pathU = TourPath.distanceForProgress(progress);
+        const sample = this.path.sample(this.pathU);
+
+        this.camera.position.copy(sample.position);
+        const euler = new THREE.Euler().setFromQuaternion(sample.quaternion, 'YXZ');
+        this.camera.rotation.set(euler.x, euler.y, 0);
+
+        this.cloudControl?.setSpeed(sample.cloudMovementSpeed);
+        this.customScene.getClouds().setMovementSpeed(sample.cloudMovementSpeed);
+        this.cloudControl?.setAmount(sample.cloudAmount);
+        this.customScene.getClouds().setCloudAmount(sample.cloudAmount);
+        this.fogSlider?.setDensity(sample.fogValue);
+        this.customScene.getFog().setDensity(sample.fogValue);
+        this.lanternControl?.setWarmth(sample.colorWarmth);
+        this.customScene.getLanterns().setWarmth(sample.colorWarmth);
+        this.lanternControl?.setIntensity(sample.colorIntensity);
+        this.customScene.getLanterns().setIntensity(sample.colorIntensity);
+
+        const currentDate = new Date(sample.dateTime);
+        this.customScene.getSun().setCustomDateTime(currentDate);
+        this.customScene.getClocks().setCustomDateTime(currentDate);
+        this.timePicker?.setTime(currentDate.getHours() + currentDate.getMinutes() / 60);
+
+        if (progress >= 1) {
+            this.finish(true);
+        }
+    }
+
     /**
      * Updates the current tour animation for this frame.
      * Interpolates all parameters based on elapsed time and applies easing.
      * Call this every frame to keep tour animations smooth.
      */
     public animate(): void {
+        if (this.pausedAt !== null) {
+            return;
+        }
+        if (this.isAnimatingTour && this.path) {
+            this.animatePath();
+            return;
+        }
         if (!this.isAnimatingTour || !this.parameter || !this.camera || !this.customScene) {
             return;
         }
@@ -168,13 +302,11 @@ export class TourAnimator {
         const currentTime = performance.now();
         const elapsed = currentTime - this.startTime;
         const progress = Math.min(elapsed / this.duration, 1);
-        
-        const easedProgress = progress < 0.5
-            ? 2 * progress * progress
-            : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+        const parameter = this.parameter;
+        const easedProgress = (property: TourProperty) => getPropertyProgress(parameter, property, progress);
 
         if (this.parameter.position) {
-            const currentPos = this.lerpVector3(this.startPosition, this.targetPosition, easedProgress);
+            const currentPos = this.lerpVector3(this.startPosition, this.targetPosition, easedProgress('position'));
             this.camera.position.copy(currentPos);
         }
 
@@ -195,44 +327,45 @@ export class TourAnimator {
             const startQuat = new THREE.Quaternion().setFromEuler(startEuler);
             const targetQuat = new THREE.Quaternion().setFromEuler(targetEuler);
             
-            const currentQuat = new THREE.Quaternion().slerpQuaternions(startQuat, targetQuat, easedProgress);
+            const currentQuat = new THREE.Quaternion().slerpQuaternions(startQuat, targetQuat, easedProgress('cameraRotation'));
             const currentEuler = new THREE.Euler().setFromQuaternion(currentQuat, 'YXZ');
             this.camera.rotation.set(currentEuler.x, currentEuler.y, 0);
         }
 
         if (this.parameter.cloudMovementSpeed !== undefined && this.cloudControl) {
-            const currentSpeed = this.lerp(this.startCloudSpeed, this.targetCloudSpeed, easedProgress);
+            const currentSpeed = this.lerp(this.startCloudSpeed, this.targetCloudSpeed, easedProgress('cloudMovementSpeed'));
             this.cloudControl.setSpeed(currentSpeed);
             this.customScene.getClouds().setMovementSpeed(currentSpeed);
         }
         if (this.parameter.cloudAmount !== undefined && this.cloudControl) {
-            const currentAmount = this.lerp(this.startCloudAmount, this.targetCloudAmount, easedProgress);
+            const currentAmount = this.lerp(this.startCloudAmount, this.targetCloudAmount, easedProgress('cloudAmount'));
             this.cloudControl.setAmount(currentAmount);
             this.customScene.getClouds().setCloudAmount(currentAmount);
         }
         if (this.parameter.fogValue !== undefined && this.fogSlider) {
-            const currentFog = this.lerp(this.startFogValue, this.targetFogValue, easedProgress);
+            const currentFog = this.lerp(this.startFogValue, this.targetFogValue, easedProgress('fogValue'));
             this.fogSlider.setDensity(currentFog);
             this.customScene.getFog().setDensity(currentFog);
         }
         if (this.parameter.colorWarmth !== undefined && this.lanternControl) {
-            const currentWarmth = this.lerp(this.startWarmth, this.targetWarmth, easedProgress);
+            const currentWarmth = this.lerp(this.startWarmth, this.targetWarmth, easedProgress('colorWarmth'));
             this.lanternControl.setWarmth(currentWarmth);
             this.customScene.getLanterns().setWarmth(currentWarmth);
         }if (this.parameter.colorIntensity !== undefined && this.lanternControl) {
-            const currentIntensity = this.lerp(this.startIntensity, this.targetIntensity, easedProgress);
+            const currentIntensity = this.lerp(this.startIntensity, this.targetIntensity, easedProgress('colorIntensity'));
             this.lanternControl.setIntensity(currentIntensity);
             this.customScene.getLanterns().setIntensity(currentIntensity);
         }
         if (this.parameter.dateTime) {
             const timeDiff = this.targetDateTime.getTime() - this.startDateTime.getTime();
-            const currentTimeMs = this.startDateTime.getTime() + (timeDiff * easedProgress);
+            const currentTimeMs = this.startDateTime.getTime() + (timeDiff * easedProgress('dateTime'));
             const currentDate = new Date(currentTimeMs);
             
             const sun = this.customScene.getSun();
             const clocks = this.customScene.getClocks();
             sun.setCustomDateTime(currentDate);
             clocks.setCustomDateTime(currentDate);
+            this.timePicker?.setTime(currentDate.getHours() + currentDate.getMinutes() / 60);
         }
         if (progress >= 1) {
             if (this.parameter.position) {
@@ -269,20 +402,102 @@ export class TourAnimator {
                 const clocks = this.customScene.getClocks();
                 sun.setCustomDateTime(this.targetDateTime);
                 clocks.setCustomDateTime(this.targetDateTime);
+                this.timePicker?.setTime(this.targetDateTime.getHours() + this.targetDateTime.getMinutes() / 60);
             }
-            this.isAnimatingTour = false;
-            this.parameter = null;
-            this.camera = null;
-            this.customScene = null;
-            this.fogSlider = null;
-            this.cloudControl = null;
-            this.lanternControl = null;
-            
-            if (this.resolveCallback) {
-                this.resolveCallback();
-                this.resolveCallback = null;
-            }
+            this.finish(true);
+        }
+    }
+
+    /**
+     * Ends the current animation, releases all references and resolves its promise.
+     * @param completed Whether the animation reached its target
+     */
+    private finish(completed: boolean): void {
+        this.isAnimatingTour = false;
+        this.pausedAt = null;
+        this.parameter = null;
+        this.path = null;
+        this.camera = null;
+        this.customScene = null;
+        this.timePicker = null;
+        this.fogSlider = null;
+        this.cloudControl = null;
+        this.lanternControl = null;
+
+        const resolve = this.resolveCallback;
+        this.resolveCallback = null;
+        if (resolve) {
+            resolve(completed);
+        }
+    }
+
+    /**
+     * Stops the current animation where it is. Its promise resolves with false.
+     */
+    public cancel(): void {
+        if (this.isAnimatingTour) {
+            this.finish(false);
+        }
+    }
+
+    /**
+     * Freezes the current animation until {@link resume} is called.
+     */
+    public pause(): void {
+        if (this.isAnimatingTour && this.pausedAt === null) {
+            this.pausedAt = performance.now();
+        }
+    }
+
+    /**
+     * Continues a paused animation from where it was frozen.
+     */
+    public resume(): void {
+        if (this.pausedAt !== null) {
+            this.startTime += performance.now() - this.pausedAt;
+            this.pausedAt = null;
         }
     }
-}
 
+    /**
+     * Checks if an animation is currently running, paused or not.
+     * @return True while an animation is in progress
+     */
+    public isAnimating(): boolean {
+        return this.isAnimatingTour;
+    }
+
+    /**
+     * Checks if the current animation is paused.
+     * @return True if paused
+     */
+    public isPaused(): boolean {
+        return this.pausedAt !== null;
+    }
+
+    /**
+     * Gets how far the current animation has progressed in time.
+     * @return Progress from 0 to 1, or 0 if nothing is animating
+     */
+    public getProgress(): number {
+        if (!this.isAnimatingTour) {
+            return 0;
+        }
+        if (this.duration <= 0) {
+            return 1;
+        }
+        const now = this.pausedAt ?? performance.now();
+        return Math.min((now - this.startTime) / this.duration, 1);
+    }
+
+    /**
+     * Gets the index of the step the current spline path animation is flying towards.
+     * @return Index into the parameters passed to {@link animateTourPath}, or -1 if no path is animating
+     */
+    public getPathStep(): number {
+        if (!this.path) {
+            return -1;
+        }
+        return this.path.getSegment(this.pathU) + 1;
+    }
+}
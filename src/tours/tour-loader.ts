@@ -0,0 +1,400 @@
+import * as THREE from 'three';
+import {
+    Tour,
+    type TourCaption,
+    type TourEasing,
+    type TourParameter,
+    type TourPathMode,
+    type TourProperty,
+    type TourPropertyTiming
+} from './tour';
+import { easingNames } from './easing';
+import { solarEvents, type SolarEvent } from '../ambient/solar-ephemeris';
+import type { SceneState } from '../scene';
+
+/**
+ * A single tour step as stored in a tour JSON file.
+ * Mirrors {@link TourParameter} with plain JSON values instead of Three.js objects and dates.
+ */
+export interface TourStepFile {
+    position?: { x: number; y: number; z: number };
+    cameraRotation?: { pitch: number; yaw: number };
+    cloudMovementSpeed?: number;
+    cloudAmount?: number;
+    colorWarmth?: number;
+    colorIntensity?: number;
+    fogValue?: number;
+    dateTime?: string; // local time, e.g. "2025-11-23T11:40:00"
+    solarEvent?: SolarEvent;
+    duration: number; // in ms
+    easing?: TourEasing;
+    timing?: Partial<Record<TourProperty, TourPropertyTiming>>;
+    caption?: TourCaption;
+    hold?: number; // in ms
+}
+
+/**
+ * The structure of a tour JSON file in `public/tours`, see `public/tours/tour.schema.json`.
+ */
+export interface TourFile {
+    name: string;
+    description: string;
+    path?: TourPathMode;
+    steps: TourStepFile[];
+}
+
+/**
+ * Thrown when a tour file does not match the expected format.
+ * Carries the index of the faulty step and the name of the faulty field to make fixing the file easy.
+ */
+export class TourValidationError extends Error {
+    public stepIndex: number | null;
+    public field: string;
+
+    /**
+     * Creates a new validation error.
+     * @param message Description of what is wrong
+     * @param field The field that failed validation
+     * @param stepIndex Index of the step containing the field, or null for top-level fields
+     */
+    constructor(message: string, field: string, stepIndex: number | null = null) {
+        const location = stepIndex !== null ? `steps[${stepIndex}].${field}` : field;
+        super(`${location}: ${message}`);
+        this.name = 'TourValidationError';
+        this.field = field;
+        this.stepIndex = stepIndex;
+    }
+}
+
+const numericStepFields = ['cloudMovementSpeed', 'cloudAmount', 'colorWarmth', 'colorIntensity', 'fogValue'] as const;
+const knownStepFields = ['position', 'cameraRotation', ...numericStepFields, 'dateTime', 'solarEvent', 'duration', 'easing', 'timing', 'caption', 'hold'];
+const timedProperties: string[] = ['position', 'cameraRotation', ...numericStepFields, 'dateTime'];
+
+/**
+ * Checks whether a value is a plain object (not null and not an array).
+ * @param value The value to check
+ * @return True if the value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a value is a finite number.
+ * @param value The value to check
+ * @return True if the value is a finite number
+ */
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Validates an object of numeric components such as a position or rotation.
+ * @param value The value to validate
+ * @param keys The component names that must be present
+ * @param field The field name used in error messages
+ * @param stepIndex The index of the step being validated
+ */
+function validateComponents(value: unknown, keys: string[], field: string, stepIndex: number): void {
+    if (!isObject(value)) {
+        throw new TourValidationError(`expected an object with ${keys.join(', ')}`, field, stepIndex);
+    }
+    for (const key of keys) {
+        if (!isNumber(value[key])) {
+            throw new TourValidationError('expected a number', `${field}.${key}`, stepIndex);
+        }
+    }
+}
+
+/**
+ * Validates an easing curve name or cubic bezier control points.
+ * @param value The value to validate
+ * @param field The field name used in error messages
+ * @param stepIndex The index of the step being validated
+ */
+function validateEasing(value: unknown, field: string, stepIndex: number): void {
+    if (typeof value === 'string' && (easingNames as string[]).includes(value)) {
+        return;
+    }
+    const isBezier = Array.isArray(value)
+        && value.length === 4
+        && value.every(isNumber)
+        && value[0] >= 0 && value[0] <= 1
+        && value[2] >= 0 && value[2] <= 1;
+    if (!isBezier) {
+        throw new TourValidationError(
+            `expected one of ${easingNames.join(', ')} or bezier control points [x1, y1, x2, y2] with x between 0 and 1`,
+            field,
+            stepIndex
+        );
+    }
+}
+
+/**
+ * Validates the per-property timing windows of a step.
+ * @param value The value to validate
+ * @param stepIndex The index of the step being validated
+ */
+function validateTiming(value: unknown, stepIndex: number): void {
+    if (!isObject(value)) {
+        throw new TourValidationError('expected an object keyed by property name', 'timing', stepIndex);
+    }
+    for (const [property, timing] of Object.entries(value)) {
+        const field = `timing.${property}`;
+        if (!timedProperties.includes(property)) {
+            throw new TourValidationError('unknown property', field, stepIndex);
+        }
+        if (!isObject(timing)) {
+            throw new TourValidationError('expected an object with start, end or easing', field, stepIndex);
+        }
+        for (const key of Object.keys(timing)) {
+            if (!['start', 'end', 'easing'].includes(key)) {
+                throw new TourValidationError('unknown field', `${field}.${key}`, stepIndex);
+            }
+        }
+        for (const key of ['start', 'end'] as const) {
+            const fraction = timing[key];
+            if (fraction !== undefined && (!isNumber(fraction) || fraction < 0 || fraction > 1)) {
+                throw new TourValidationError('expected a fraction of the duration between 0 and 1', `${field}.${key}`, stepIndex);
+            }
+        }
+        const start = isNumber(timing.start) ? timing.start : 0;
+        const end = isNumber(timing.end) ? timing.end : 1;
+        if (start > end) {
+            throw new TourValidationError('start must not be after end', field, stepIndex);
+        }
+        if (timing.easing !== undefined) {
+            validateEasing(timing.easing, `${field}.easing`, stepIndex);
+        }
+    }
+}
+
+/**
+ * Validates the caption of a step.
+ * @param value The value to validate
+ * @param stepIndex The index of the step being validated
+ */
+function validateCaption(value: unknown, stepIndex: number): void {
+    if (!isObject(value)) {
+        throw new TourValidationError('expected an object with title, body or audio', 'caption', stepIndex);
+    }
+    for (const [key, text] of Object.entries(value)) {
+        if (!['title', 'body', 'audio'].includes(key)) {
+            throw new TourValidationError('unknown field', `caption.${key}`, stepIndex);
+        }
+        if (typeof text !== 'string') {
+            throw new TourValidationError('expected a string', `caption.${key}`, stepIndex);
+        }
+    }
+}
+
+/**
+ * Validates a single tour step.
+ * @param step The step to validate
+ * @param stepIndex The index of the step within the tour
+ */
+function validateStep(step: unknown, stepIndex: number): void {
+    if (!isObject(step)) {
+        throw new TourValidationError('expected an object', 'step', stepIndex);
+    }
+    for (const key of Object.keys(step)) {
+        if (!knownStepFields.includes(key)) {
+            throw new TourValidationError('unknown field', key, stepIndex);
+        }
+    }
+    if (!isNumber(step.duration) || step.duration < 0) {
+        throw new TourValidationError('expected a non-negative number of milliseconds', 'duration', stepIndex);
+    }
+    if (step.position !== undefined) {
+        validateComponents(step.position, ['x', 'y', 'z'], 'position', stepIndex);
+    }
+    if (step.cameraRotation !== undefined) {
+        validateComponents(step.cameraRotation, ['pitch', 'yaw'], 'cameraRotation', stepIndex);
+    }
+    for (const field of numericStepFields) {
+        const value = step[field];
+        if (value !== undefined && (!isNumber(value) || value < 0)) {
+            throw new TourValidationError('expected a non-negative number', field, stepIndex);
+        }
+    }
+    for (const field of ['cloudAmount', 'colorWarmth'] as const) {
+        const value = step[field];
+        if (isNumber(value) && value > 1) {
+            throw new TourValidationError('expected a value between 0 and 1', field, stepIndex);
+        }
+    }
+    if (step.dateTime !== undefined) {
+        if (typeof step.dateTime !== 'string' || isNaN(new Date(step.dateTime).getTime())) {
+            throw new TourValidationError('expected a date string like "2025-11-23T11:40:00"', 'dateTime', stepIndex);
+        }
+    }
+    if (step.solarEvent !== undefined && !solarEvents.includes(step.solarEvent as SolarEvent)) {
+        throw new TourValidationError(`expected one of ${solarEvents.join(', ')}`, 'solarEvent', stepIndex);
+    }
+    if (step.easing !== undefined) {
+        validateEasing(step.easing, 'easing', stepIndex);
+    }
+    if (step.timing !== undefined) {
+        validateTiming(step.timing, stepIndex);
+    }
+    if (step.caption !== undefined) {
+        validateCaption(step.caption, stepIndex);
+    }
+    if (step.hold !== undefined && (!isNumber(step.hold) || step.hold < 0)) {
+        throw new TourValidationError('expected a non-negative number of milliseconds', 'hold', stepIndex);
+    }
+}
+
+/**
+ * Validates parsed JSON against the tour file format.
+ * @param data The parsed JSON content of a tour file
+ * @return The same data, typed as a tour file
+ * @throws TourValidationError if the data does not match the format
+ */
+export function validateTourFile(data: unknown): TourFile {
+    if (!isObject(data)) {
+        throw new TourValidationError('expected a tour object', 'tour');
+    }
+    if (typeof data.name !== 'string' || data.name.length === 0) {
+        throw new TourValidationError('expected a non-empty string', 'name');
+    }
+    if (typeof data.description !== 'string') {
+        throw new TourValidationError('expected a string', 'description');
+    }
+    if (data.path !== undefined && data.path !== 'linear' && data.path !== 'spline') {
+        throw new TourValidationError('expected "linear" or "spline"', 'path');
+    }
+    if (!Array.isArray(data.steps) || data.steps.length === 0) {
+        throw new TourValidationError('expected a non-empty array', 'steps');
+    }
+    data.steps.forEach(validateStep);
+    return data as unknown as TourFile;
+}
+
+/**
+ * Converts a tour step from its JSON form into a tour parameter.
+ * @param step The validated tour step
+ * @return The tour parameter used by the tour animator
+ */
+export function stepToTourParameter(step: TourStepFile): TourParameter {
+    const parameter: TourParameter = {
+        cloudMovementSpeed: step.cloudMovementSpeed,
+        cloudAmount: step.cloudAmount,
+        colorWarmth: step.colorWarmth,
+        colorIntensity: step.colorIntensity,
+        fogValue: step.fogValue,
+        duration: step.duration,
+        hold: step.hold
+    };
+    if (step.position) {
+        parameter.position = new THREE.Vector3(step.position.x, step.position.y, step.position.z);
+    }
+    if (step.cameraRotation) {
+        parameter.cameraRotation = { ...step.cameraRotation };
+    }
+    if (step.dateTime) {
+        parameter.dateTime = new Date(step.dateTime);
+    }
+    if (step.solarEvent) {
+        parameter.solarEvent = step.solarEvent;
+    }
+    if (step.easing) {
+        parameter.easing = step.easing;
+    }
+    if (step.timing) {
+        parameter.timing = structuredClone(step.timing);
+    }
+    if (step.caption) {
+        parameter.caption = { ...step.caption };
+    }
+    return parameter;
+}
+
+/**
+ * Formats a date as a local date-time string without timezone, as used in tour files.
+ * @param date The date to format
+ * @return The formatted date, e.g. "2025-11-23T11:40:00"
+ */
+export function formatLocalDateTime(date: Date): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Creates a tour step that animates to a captured scene state.
+ * @param state The scene state the step should arrive at
+ * @param duration Transition duration in milliseconds
+ * @return A tour step containing every animatable property of the state
+ */
+export function stateToTourStep(state: SceneState, duration: number): TourStepFile {
+    const dateTime = state.sun.dateTime ? new Date(state.sun.dateTime) : new Date();
+    return {
+        position: { ...state.camera.position },
+        cameraRotation: { ...state.camera.rotation },
+        cloudMovementSpeed: state.clouds.speed,
+        cloudAmount: state.clouds.amount,
+        colorWarmth: state.lanterns.warmth,
+        colorIntensity: state.lanterns.intensity,
+        fogValue: state.fog.density,
+        dateTime: formatLocalDateTime(dateTime),
+        duration
+    };
+}
+
+/**
+ * Validates tour JSON and converts it into a tour.
+ * @param data The parsed JSON content of a tour file
+ * @return The tour ready to be played
+ * @throws TourValidationError if the data does not match the format
+ */
+export function parseTour(data: unknown): Tour {
+    const file = validateTourFile(data);
+    return new Tour(file.name, file.description, file.steps.map(stepToTourParameter), file.path);
+}
+
+/**
+ * Fetches and parses a single tour file.
+ * @param url The URL of the tour JSON file
+ * @return Promise that resolves to the loaded tour
+ */
+export async function loadTour(url: string): Promise<Tour> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to load tour ${url}: ${response.status} ${response.statusText}`);
+    }
+    return parseTour(await response.json());
+}
+
+/**
+ * Loads all tours listed in a tour index file.
+ * The index is a JSON array of tour file names relative to the index location.
+ * Tours that fail to load or validate are reported on the console and skipped.
+ * @param indexUrl The URL of the tour index file
+ * @return Promise that resolves to all successfully loaded tours
+ */
+export async function loadTours(indexUrl: string = '/tours/index.json'): Promise<Tour[]> {
+    const response = await fetch(indexUrl);
+    if (!response.ok) {
+        throw new Error(`Failed to load tour index ${indexUrl}: ${response.status} ${response.statusText}`);
+    }
+    const files: unknown = await response.json();
+    if (!Array.isArray(files) || files.some((file) => typeof file !== 'string')) {
+        throw new Error(`Tour index ${indexUrl} must be an array of file names`);
+    }
+
+    const baseUrl = new URL(indexUrl, window.location.href);
+    const results = await Promise.allSettled(
+        files.map((file: string) => loadTour(new URL(file, baseUrl).toString()))
+    );
+
+    const tours: Tour[] = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            tours.push(result.value);
+        } else {
+            console.error(`Skipping tour ${files[index]}:`, result.reason);
+        }
+    });
+    return tours;
+}
@@ -0,0 +1,237 @@
+import * as THREE from 'three';
+import { type TourParameter, type TourProperty } from './tour';
+import type { SceneState } from '../scene';
+import { getPropertyProgress } from './easing';
+
+/**
+ * All values of a tour at one point along a spline path.
+ */
+export interface TourPathSample {
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+    dateTime: number; // ms since epoch
+    fogValue: number;
+    cloudMovementSpeed: number;
+    cloudAmount: number;
+    colorWarmth: number;
+    colorIntensity: number;
+}
+
+/**
+ * A fully resolved tour step with every value present.
+ */
+interface Keyframe {
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+    dateTime: number;
+    fogValue: number;
+    cloudMovementSpeed: number;
+    cloudAmount: number;
+    colorWarmth: number;
+    colorIntensity: number;
+    parameter: TourParameter; // the step this keyframe was created from, for its easing and timing
+}
+
+/**
+ * Number of curve subdivisions per keyframe segment used to measure arc length.
+ */
+const ARC_LENGTH_DIVISIONS = 200;
+
+/**
+ * Fraction of the total time used to speed up at the start and slow down at the end of a path.
+ */
+const RAMP_FRACTION = 0.1;
+
+/**
+ * A continuous camera path through all positions of a tour.
+ * Uses a centripetal Catmull-Rom spline sampled by arc length so the camera flies at constant speed
+ * and does not stop at keyframes. Orientation and scene settings are blended smoothly between keyframes.
+ * Scene settings change linearly within a segment unless the step they lead to sets its own easing or timing.
+ */
+export class TourPath {
+    private curve: THREE.CatmullRomCurve3;
+    private keyframes: Keyframe[] = [];
+    private keyframeU: number[] = [];
+
+    /**
+     * Creates a spline path through the given tour steps.
+     * Values a step does not define are carried over from the previous step, starting with the given state.
+     * @param parameters The tour steps to fly through, at least two
+     * @param startState The scene state used for values the first step does not define
+     */
+    constructor(parameters: TourParameter[], startState: SceneState) {
+        const { position, rotation } = startState.camera;
+        let previous: Keyframe = {
+            position: new THREE.Vector3(position.x, position.y, position.z),
+            quaternion: rotationToQuaternion(rotation.pitch, rotation.yaw),
+            dateTime: startState.sun.dateTime ? new Date(startState.sun.dateTime).getTime() : Date.now(),
+            fogValue: startState.fog.density,
+            cloudMovementSpeed: startState.clouds.speed,
+            cloudAmount: startState.clouds.amount,
+            colorWarmth: startState.lanterns.warmth,
+            colorIntensity: startState.lanterns.intensity,
+            parameter: { duration: 0 }
+        };
+
+        for (const parameter of parameters) {
+            const keyframe: Keyframe = {
+                position: parameter.position ? parameter.position.clone() : previous.position.clone(),
+                quaternion: parameter.cameraRotation
+                    ? rotationToQuaternion(parameter.cameraRotation.pitch, parameter.cameraRotation.yaw)
+                    : previous.quaternion.clone(),
+                dateTime: parameter.dateTime ? parameter.dateTime.getTime() : previous.dateTime,
+                fogValue: parameter.fogValue ?? previous.fogValue,
+                cloudMovementSpeed: parameter.cloudMovementSpeed ?? previous.cloudMovementSpeed,
+                cloudAmount: parameter.cloudAmount ?? previous.cloudAmount,
+                colorWarmth: parameter.colorWarmth ?? previous.colorWarmth,
+                colorIntensity: parameter.colorIntensity ?? previous.colorIntensity,
+                parameter
+            };
+            // Keep consecutive quaternions in the same hemisphere so blending takes the short way
+            if (keyframe.quaternion.dot(previous.quaternion) < 0) {
+                keyframe.quaternion.set(
+                    -keyframe.quaternion.x,
+                    -keyframe.quaternion.y,
+                    -keyframe.quaternion.z,
+                    -keyframe.quaternion.w
+                );
+            }
+            this.keyframes.push(keyframe);
+            previous = keyframe;
+        }
+
+        this.curve = new THREE.CatmullRomCurve3(
+            this.keyframes.map((keyframe) => keyframe.position),
+            false,
+            'centripetal'
+        );
+        this.curve.arcLengthDivisions = ARC_LENGTH_DIVISIONS * Math.max(1, this.keyframes.length - 1);
+        this.computeKeyframeU();
+    }
+
+    /**
+     * Calculates where each keyframe lies along the path as a fraction of the total arc length.
+     */
+    private computeKeyframeU(): void {
+        const segments = this.keyframes.length - 1;
+        const lengths = this.curve.getLengths();
+        const totalLength = lengths[lengths.length - 1];
+
+        for (let i = 0; i <= segments; i++) {
+            if (totalLength <= 0 || segments === 0) {
+                this.keyframeU.push(segments === 0 ? 0 : i / segments);
+                continue;
+            }
+            const index = Math.round((i / segments) * (lengths.length - 1));
+            this.keyframeU.push(lengths[index] / totalLength);
+        }
+    }
+
+    /**
+     * Maps linear time progress to arc-length progress with a short acceleration and deceleration phase.
+     * Between the ramps the camera moves at constant speed.
+     * @param progress Time progress from 0 to 1
+     * @return Distance progress along the path from 0 to 1
+     */
+    public static distanceForProgress(progress: number): number {
+        const t = THREE.MathUtils.clamp(progress, 0, 1);
+        const r = RAMP_FRACTION;
+        const maxSpeed = 1 / (1 - r);
+        if (t < r) {
+            return maxSpeed * t * t / (2 * r);
+        }
+        if (t > 1 - r) {
+            const remaining = 1 - t;
+            return 1 - maxSpeed * remaining * remaining / (2 * r);
+        }
+        return maxSpeed * (t - r / 2);
+    }
+
+    /**
+     * Samples camera pose and scene settings at a point along the path.
+     * @param u Distance progress along the path from 0 to 1
+     * @return The interpolated values at that point
+     */
+    public sample(u: number): TourPathSample {
+        const clampedU = THREE.MathUtils.clamp(u, 0, 1);
+        const position = this.keyframes.length > 1
+            ? this.curve.getPointAt(clampedU)
+            : this.keyframes[0].position.clone();
+
+        const segment = this.getSegment(clampedU);
+        const from = this.keyframes[segment];
+        const to = this.keyframes[Math.min(segment + 1, this.keyframes.length - 1)];
+        const segmentLength = (this.keyframeU[segment + 1] ?? 1) - this.keyframeU[segment];
+        const f = segmentLength > 0
+            ? THREE.MathUtils.clamp((clampedU - this.keyframeU[segment]) / segmentLength, 0, 1)
+            : 1;
+
+        const lerp = (property: Exclude<TourProperty, 'position' | 'cameraRotation'>) => THREE.MathUtils.lerp(
+            from[property],
+            to[property],
+            getPropertyProgress(to.parameter, property, f, 'linear')
+        );
+
+        return {
+            position,
+            quaternion: this.blendQuaternion(segment, f),
+            dateTime: lerp('dateTime'),
+            fogValue: lerp('fogValue'),
+            cloudMovementSpeed: lerp('cloudMovementSpeed'),
+            cloudAmount: lerp('cloudAmount'),
+            colorWarmth: lerp('colorWarmth'),
+            colorIntensity: lerp('colorIntensity')
+        };
+    }
+
+    /**
+     * Finds the keyframe segment containing a point along the path.
+     * @param u Distance progress along the path from 0 to 1
+     * @return Index of the keyframe the segment starts at
+     */
+    public getSegment(u: number): number {
+        let segment = 0;
+        while (segment < this.keyframeU.length - 2 && u > this.keyframeU[segment + 1]) {
+            segment++;
+        }
+        return segment;
+    }
+
+    /**
+     * Blends keyframe orientations with a Catmull-Rom curve on the quaternion components.
+     * Unlike a plain slerp per segment, the rotation keeps turning smoothly through keyframes.
+     * @param segment Index of the keyframe the segment starts at
+     * @param f Progress within the segment from 0 to 1
+     * @return The blended orientation
+     */
+    private blendQuaternion(segment: number, f: number): THREE.Quaternion {
+        const last = this.keyframes.length - 1;
+        const q0 = this.keyframes[Math.max(segment - 1, 0)].quaternion;
+        const q1 = this.keyframes[segment].quaternion;
+        const q2 = this.keyframes[Math.min(segment + 1, last)].quaternion;
+        const q3 = this.keyframes[Math.min(segment + 2, last)].quaternion;
+
+        const catmullRom = (p0: number, p1: number, p2: number, p3: number) => {
+            const f2 = f * f;
+            const f3 = f2 * f;
+            return 0.5 * ((2 * p1) + (-p0 + p2) * f + (2 * p0 - 5 * p1 + 4 * p2 - p3) * f2 + (-p0 + 3 * p1 - 3 * p2 + p3) * f3);
+        };
+
+        return new THREE.Quaternion(
+            catmullRom(q0.x, q1.x, q2.x, q3.x),
+            catmullRom(q0.y, q1.y, q2.y, q3.y),
+            catmullRom(q0.z, q1.z, q2.z, q3.z),
+            catmullRom(q0.w, q1.w, q2.w, q3.w)
+        ).normalize();
+    }
+}
+
+/**
+ * Converts a camera pitch and yaw into a quaternion using the camera's YXZ rotation order.
+ * @param pitch Rotation around the X axis in radians
+ * @param yaw Rotation around the Y axis in radians
+ * @return The matching quaternion
+ */
+function rotationToQuaternion(pitch: number, yaw: number): THREE.Quaternion {
+    return new THREE.Quaternion().setFromEuler(new THREE.Euler(pitch, yaw, 0, 'YXZ'));
+}
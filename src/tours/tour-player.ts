@@ -0,0 +1,421 @@
+import { Tour, type TourCaption, type TourParameter } from './tour';
+import { TourAnimator } from './tour-animator';
+import { Scene } from '../scene';
+import { TimePicker } from '../controls/time-picker';
+import { FogSlider } from '../controls/fog-slider';
+import { CloudControl } from '../controls/cloud-control';
+import { LanternControl } from '../controls/lantern-control';
+import * as THREE from 'three';
+
+/**
+ * Describes a running tour for display in the UI.
+ */
+export interface TourPlaybackState {
+    tour: Tour;
+    stepIndex: number; // step the camera is currently moving towards or holding at
+    stepCount: number;
+    progress: number; // 0-1 over the whole tour
+    paused: boolean;
+    holding: boolean; // true while waiting at a step after arriving
+}
+
+/**
+ * Plays tours step by step with play, pause, stop, next and previous controls.
+ * Shows the caption of each step while it plays and waits for the step's hold time after arriving.
+ * Only one tour runs at a time: starting a new tour stops the previous one.
+ * A running tour is cancelled when the user presses Escape or takes over the camera by locking the pointer.
+ */
+export class TourPlayer {
+    private tourAnimator: TourAnimator;
+    private customScene: Scene;
+    private timePicker: TimePicker;
+    private fogSlider: FogSlider;
+    private cloudControl: CloudControl;
+    private lanternControl: LanternControl;
+
+    private tour: Tour | null = null;
+    private stepIndex: number = 0;
+    private pathStartIndex: number = -1;
+    private pathEndIndex: number = -1;
+    private pendingJump: number | null = null;
+    private holding: boolean = false;
+    private paused: boolean = false;
+    private generation: number = 0;
+    private captionStep: number = -1;
+    private onStateChangeCallback?: (state: TourPlaybackState | null) => void;
+    private onCaptionChangeCallback?: (caption: TourCaption | null) => void;
+
+    /**
+     * Creates a tour player that drives the tour animator.
+     * @param tourAnimator The animator that performs the individual transitions
+     * @param customScene The scene manager
+     * @param timePicker Time picker control for updating time display
+     * @param fogSlider Fog slider control for updating fog UI
+     * @param cloudControl Cloud control for updating cloud UI
+     * @param lanternControl Lantern control for updating lantern UI
+     */
+    constructor(
+        tourAnimator: TourAnimator,
+        customScene: Scene,
+        timePicker: TimePicker,
+        fogSlider: FogSlider,
+        cloudControl: CloudControl,
+        lanternControl: LanternControl
+    ) {
+        this.tourAnimator = tourAnimator;
+        this.customScene = customScene;
+        this.timePicker = timePicker;
+        this.fogSlider = fogSlider;
+        this.cloudControl = cloudControl;
+        this.lanternControl = lanternControl;
+
+        this.setupEventListeners();
+    }
+
+    /**
+     * Cancels the tour when the user locks the pointer to fly manually or presses Escape.
+     */
+    private setupEventListeners(): void {
+        this.customScene.getControls().addEventListener('lock', () => {
+            if (this.isPlaying()) {
+                this.stop();
+            }
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.isPlaying()) {
+                this.stop();
+            }
+        });
+    }
+
+    /**
+     * Starts playing a tour from its first step, stopping any tour that is already running.
+     * @param tour The tour to play
+     */
+    public play(tour: Tour): void {
+        this.stop();
+        this.tour = tour;
+        this.stepIndex = 0;
+        this.pathStartIndex = -1;
+        this.pendingJump = null;
+        this.holding = false;
+        console.log(`Starting tour: ${tour.name}`);
+        this.run(this.generation);
+    }
+
+    /**
+     * Stops the running tour and leaves the camera where it is.
+     */
+    public stop(): void {
+        this.generation++;
+        this.tourAnimator.cancel();
+        this.paused = false;
+        this.holding = false;
+        if (this.tour) {
+            console.log(`Tour stopped: ${this.tour.name}`);
+            this.tour = null;
+            this.notifyStateChange();
+            this.updateCaption();
+        }
+    }
+
+    /**
+     * Freezes the running tour until {@link resume} is called.
+     */
+    public pause(): void {
+        if (!this.tour) return;
+        this.paused = true;
+        this.tourAnimator.pause();
+        this.notifyStateChange();
+    }
+
+    /**
+     * Continues a paused tour.
+     */
+    public resume(): void {
+        if (!this.tour) return;
+        this.paused = false;
+        this.tourAnimator.resume();
+        this.notifyStateChange();
+    }
+
+    /**
+     * Pauses a running tour or resumes a paused one.
+     */
+    public togglePause(): void {
+        if (this.paused) {
+            this.resume();
+        } else {
+            this.pause();
+        }
+    }
+
+    /**
+     * Skips ahead: jumps to the step the camera is moving towards, or to the following step while holding.
+     * Skipping past the last step ends the tour.
+     */
+    public next(): void {
+        if (!this.tour) return;
+        const target = this.holding ? this.getCurrentStep() + 1 : this.getCurrentStep();
+        if (target >= this.tour.parameters.length) {
+            // Let the run loop end normally
+            this.pendingJump = null;
+            this.stepIndex = this.tour.parameters.length;
+            this.tourAnimator.cancel();
+            return;
+        }
+        this.jumpTo(target);
+    }
+
+    /**
+     * Goes back one step: jumps to the step before the current one and continues from there.
+     */
+    public previous(): void {
+        if (!this.tour) return;
+        this.jumpTo(Math.max(this.getCurrentStep() - 1, 0));
+    }
+
+    /**
+     * Checks if a tour is running, paused or not.
+     * @return True while a tour is active
+     */
+    public isPlaying(): boolean {
+        return this.tour !== null;
+    }
+
+    /**
+     * Reports the playback state of the running tour. Call this every frame.
+     */
+    public update(): void {
+        if (this.tour) {
+            this.notifyStateChange();
+            this.updateCaption();
+        }
+    }
+
+    /**
+     * Registers a function to be called when the playback state changes.
+     * The callback receives null once no tour is running anymore.
+     * @param callback Function that receives the playback state
+     */
+    public onStateChange(callback: (state: TourPlaybackState | null) => void): void {
+        this.onStateChangeCallback = callback;
+    }
+
+    /**
+     * Registers a function to be called when the caption of the current step changes.
+     * @param callback Function that receives the caption, or null if the current step has none or no tour is running
+     */
+    public onCaptionChange(callback: (caption: TourCaption | null) => void): void {
+        this.onCaptionChangeCallback = callback;
+    }
+
+    /**
+     * Plays the steps of the current tour until it ends or is stopped.
+     * @param generation Identifies this run; the loop exits as soon as another run has been started or the tour was stopped
+     */
+    private async run(generation: number): Promise<void> {
+        const tour = this.tour;
+        if (!tour) return;
+
+        while (generation === this.generation && this.stepIndex < tour.parameters.length) {
+            const arrived = await this.playStep(tour);
+            if (generation !== this.generation) return;
+            if (arrived === null) continue;
+
+            this.stepIndex = arrived;
+            this.pathStartIndex = -1;
+            const hold = tour.parameters[arrived].hold ?? 0;
+            if (hold > 0) {
+                const held = await this.hold(hold);
+                if (generation !== this.generation) return;
+                if (!held) continue;
+            }
+            this.stepIndex = arrived + 1;
+        }
+
+        if (generation === this.generation) {
+            console.log(`Tour completed: ${tour.name}`);
+            this.tour = null;
+            this.paused = false;
+            this.notifyStateChange();
+            this.updateCaption();
+        }
+    }
+
+    /**
+     * Waits at the current step for its hold time. The wait can be paused and is interrupted by skipping.
+     * @param duration Hold time in milliseconds
+     * @return Promise that resolves with true when the hold time has passed, false if it was interrupted
+     */
+    private async hold(duration: number): Promise<boolean> {
+        this.holding = true;
+        // A step without values just lets time pass, so pausing and cancelling work as for transitions
+        const waiting = this.tourAnimator.animateTourParameter(
+            { duration },
+            this.customScene.getCamera(),
+            this.customScene, this.timePicker, this.fogSlider, this.cloudControl, this.lanternControl
+        );
+        if (this.paused) {
+            this.tourAnimator.pause();
+        }
+        const held = await waiting;
+        this.holding = false;
+        return held;
+    }
+
+    /**
+     * Animates the next part of the tour: a pending jump, a single step or the spline path up to the next hold.
+     * @param tour The tour being played
+     * @return Promise that resolves with the index of the step arrived at, or null if the part was interrupted
+     */
+    private playStep(tour: Tour): Promise<number | null> {
+        const camera = this.customScene.getCamera();
+        const isJump = this.pendingJump !== null;
+        let animation: Promise<number | null>;
+
+        if (this.pendingJump !== null) {
+            const target = this.pendingJump;
+            this.pendingJump = null;
+            this.pathStartIndex = -1;
+            animation = this.tourAnimator.animateTourParameter(
+                this.getParameterAt(tour, target),
+                camera, this.customScene, this.timePicker, this.fogSlider, this.cloudControl, this.lanternControl
+            ).then((completed) => completed ? target : null);
+        } else if (tour.path === 'spline' && this.stepIndex > 0 && tour.parameters.length > 1) {
+            // Fly through the steps without stopping until one of them asks to hold
+            let end = this.stepIndex;
+            while (end < tour.parameters.length - 1 && !(tour.parameters[end].hold ?? 0)) {
+                end++;
+            }
+            this.pathStartIndex = this.stepIndex;
+            this.pathEndIndex = end;
+            animation = this.tourAnimator.animateTourPath(
+                [this.getCurrentParameter(), ...tour.parameters.slice(this.stepIndex, end + 1)],
+                camera, this.customScene, this.timePicker, this.fogSlider, this.cloudControl, this.lanternControl
+            ).then((completed) => completed ? end : null);
+        } else {
+            const index = this.stepIndex;
+            this.pathStartIndex = -1;
+            animation = this.tourAnimator.animateTourParameter(
+                tour.parameters[index],
+                camera, this.customScene, this.timePicker, this.fogSlider, this.cloudControl, this.lanternControl
+            ).then((completed) => completed ? index : null);
+        }
+
+        // Jumps are instant and should show their result even while paused
+        if (this.paused && !isJump) {
+            this.tourAnimator.pause();
+        }
+        return animation;
+    }
+
+    /**
+     * Interrupts the current transition and instantly shows the given step.
+     * @param index Index of the step to jump to
+     */
+    private jumpTo(index: number): void {
+        this.pendingJump = index;
+        this.stepIndex = index;
+        this.tourAnimator.cancel();
+        this.notifyStateChange();
+    }
+
+    /**
+     * Gets the index of the step the camera is currently moving towards.
+     * @return The step index
+     */
+    private getCurrentStep(): number {
+        if (this.pathStartIndex >= 0 && this.tourAnimator.isAnimating()) {
+            const pathStep = this.tourAnimator.getPathStep();
+            if (pathStep > 0) {
+                return this.pathStartIndex + pathStep - 1;
+            }
+        }
+        return this.stepIndex;
+    }
+
+    /**
+     * Combines the values of all steps up to an index into one instant step, so jumping there gives the same result as playing there.
+     * Only the values are combined; how a step moves and what it shows (timing, easing, caption, hold) belong to that step alone.
+     * @param tour The tour being played
+     * @param index Index of the last step to include
+     * @return A step with zero duration containing the accumulated values
+     */
+    private getParameterAt(tour: Tour, index: number): TourParameter {
+        const merged: TourParameter = { duration: 0 };
+        for (const parameter of tour.parameters.slice(0, index + 1)) {
+            const { duration, easing, timing, caption, hold, ...values } = parameter;
+            // A later date and time replaces an earlier solar event, just as it does while playing
+            if (values.dateTime !== undefined && values.solarEvent === undefined) {
+                delete merged.solarEvent;
+            }
+            const defined = Object.entries(values).filter(([, value]) => value !== undefined);
+            Object.assign(merged, Object.fromEntries(defined));
+        }
+        return merged;
+    }
+
+    /**
+     * Creates a step that holds the current camera pose and scene settings.
+     * Used as the starting point for spline paths that begin mid-tour.
+     * @return A step with the current values
+     */
+    private getCurrentParameter(): TourParameter {
+        const state = this.customScene.getState();
+        const { position, rotation } = state.camera;
+        return {
+            position: new THREE.Vector3(position.x, position.y, position.z),
+            cameraRotation: { ...rotation },
+            cloudMovementSpeed: state.clouds.speed,
+            cloudAmount: state.clouds.amount,
+            colorWarmth: state.lanterns.warmth,
+            colorIntensity: state.lanterns.intensity,
+            fogValue: state.fog.density,
+            dateTime: state.sun.dateTime ? new Date(state.sun.dateTime) : undefined,
+            duration: 0
+        };
+    }
+
+    /**
+     * Calls the registered callback with the current playback state.
+     */
+    private notifyStateChange(): void {
+        if (!this.onStateChangeCallback) return;
+        if (!this.tour) {
+            this.onStateChangeCallback(null);
+            return;
+        }
+
+        const stepCount = this.tour.parameters.length;
+        const stepProgress = this.tourAnimator.getProgress();
+        let progress: number;
+        if (this.holding) {
+            progress = (this.stepIndex + 1) / stepCount;
+        } else if (this.pathStartIndex >= 0) {
+            const pathSteps = this.pathEndIndex - this.pathStartIndex + 1;
+            progress = (this.pathStartIndex + stepProgress * pathSteps) / stepCount;
+        } else {
+            progress = (this.stepIndex + stepProgress) / stepCount;
+        }
+
+        this.onStateChangeCallback({
+            tour: this.tour,
+            stepIndex: Math.min(this.getCurrentStep(), stepCount - 1),
+            stepCount,
+            progress: Math.min(progress, 1),
+            paused: this.paused,
+            holding: this.holding
+        });
+    }
+
+    /**
+     * Notifies the caption callback when the current step changed since the last call.
+     */
+    private updateCaption(): void {
+        const step = this.tour ? Math.min(this.getCurrentStep(), this.tour.parameters.length - 1) : -1;
+        if (step === this.captionStep) return;
+        this.captionStep = step;
+        this.onCaptionChangeCallback?.(this.tour && step >= 0 ? this.tour.parameters[step].caption ?? null : null);
+    }
+}
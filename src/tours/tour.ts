@@ -1,4 +1,44 @@
 import * as THREE from 'three';
+import type { SolarEvent } from '../ambient/solar-ephemeris';
+
+/**
+ * An easing curve for a tour step.
+ * Named curves ease in and out, `linear` moves at constant speed.
+ * A custom curve is given as the control points `[x1, y1, x2, y2]` of a cubic bezier, like CSS `cubic-bezier()`.
+ */
+export type TourEasing = 'linear' | 'quad' | 'cubic' | 'sine' | 'expo' | [number, number, number, number];
+
+/**
+ * The animatable properties of a tour step.
+ */
+export type TourProperty =
+    | 'position'
+    | 'cameraRotation'
+    | 'cloudMovementSpeed'
+    | 'cloudAmount'
+    | 'colorWarmth'
+    | 'colorIntensity'
+    | 'fogValue'
+    | 'dateTime';
+
+/**
+ * Restricts the animation of a single property to part of a step.
+ * `start` and `end` are fractions of the step duration, e.g. `{ start: 0.5 }` only begins halfway through.
+ */
+export interface TourPropertyTiming {
+    start?: number; // 0-1, defaults to 0
+    end?: number; // 0-1, defaults to 1
+    easing?: TourEasing; // defaults to the easing of the step
+}
+
+/**
+ * Narration shown as an overlay while a tour step plays.
+ */
+export interface TourCaption {
+    title?: string;
+    body?: string;
+    audio?: string; // URL of a narration clip played with the caption
+}
 
 /**
  * Defines a single step in a tour with camera position, rotation, and scene settings.
@@ -16,9 +56,20 @@ export interface TourParameter {
     colorIntensity?: number;
     fogValue?: number;
     dateTime?: Date;
+    solarEvent?: SolarEvent; // moves the time to this event on the day of dateTime, or of the current date
     duration: number; // in ms
+    easing?: TourEasing; // defaults to 'quad'
+    timing?: Partial<Record<TourProperty, TourPropertyTiming>>;
+    caption?: TourCaption;
+    hold?: number; // in ms, time to stay after arriving before the next step starts
 }
 
+/**
+ * How the camera travels between the steps of a tour.
+ * `linear` eases into every step in a straight line, `spline` flies one continuous curve through all steps.
+ */
+export type TourPathMode = 'linear' | 'spline';
+
 /**
  * Represents a guided tour through the scene with multiple animated steps.
  * Tours smoothly animate the camera and scene settings to show interesting views.
@@ -27,17 +78,20 @@ export class Tour {
     public name: string;
     public description: string;
     public parameters: TourParameter[];
+    public path: TourPathMode;
 
     /**
      * Creates a new tour with a name, description, and sequence of animated steps.
      * @param name The tour name displayed to users
      * @param description Brief description of what the tour shows
      * @param parameters Array of tour steps to animate through in sequence
+     * @param path How the camera travels between steps (defaults to linear)
      */
-    constructor(name: string, description: string, parameters: TourParameter[]) {
+    constructor(name: string, description: string, parameters: TourParameter[], path: TourPathMode = 'linear') {
         this.name = name;
         this.description = description;
         this.parameters = parameters;
+        this.path = path;
     }
 }
 